@@ -16,6 +16,10 @@ module.exports = {
     '@typescript-eslint/no-non-null-assertion': 'error',
     '@typescript-eslint/no-explicit-any': 'off',
     '@typescript-eslint/ban-ts-comment': 'off',
+    'jsdoc/no-undefined-types': [
+      'warn',
+      {definedTypes: ['AbortSignal', 'Buffer']},
+    ],
   },
   overrides: [
     {
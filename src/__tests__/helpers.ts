@@ -1,3 +1,5 @@
+import crypto from 'crypto';
+
 /**
  * Tagged template used to mock the `gql` tagged template used by many GQL query libraries.
  * This is especially useful for syntax highlighting in unit tests as it allows the
@@ -40,3 +42,45 @@ export const testGql = (
 
   return outputString;
 };
+
+/**
+ * Creates a minimal stand-in for an AbortController. Not every Node.js version
+ * we support provides a global AbortController, so tests use this instead.
+ *
+ * @returns {object} The signal and a method used to abort it
+ */
+export const createTestAbortController = (): {
+  signal: AbortSignal;
+  abort: () => void;
+} => {
+  const listeners = new Set<() => void>();
+  const signal = {
+    aborted: false,
+    addEventListener: (_: string, listener: () => void) =>
+      listeners.add(listener),
+    removeEventListener: (_: string, listener: () => void) =>
+      listeners.delete(listener),
+  };
+
+  return {
+    signal: signal as unknown as AbortSignal,
+    abort: () => {
+      signal.aborted = true;
+      listeners.forEach((listener) => listener());
+    },
+  };
+};
+
+/**
+ * Hashes an id the way ids are redacted in errors when they are hashed
+ *
+ * @param {string} id - The id
+ * @param {string} secret - The secret the hash is keyed with
+ * @returns {string} The redacted id
+ */
+export const redactTestId = (id: string, secret: string): string =>
+  `hmac-sha256:${crypto
+    .createHmac('sha256', secret)
+    .update(id)
+    .digest('hex')
+    .slice(0, 16)}`;
@@ -1,4 +1,18 @@
 export {handleFroidRequest} from './service/handleFroidRequest';
+export {createAeadCodec} from './service/createAeadCodec';
+export {relayIdCodec} from './service/relayIdCodec';
+export {loadFroidManifest} from './service/froidManifest';
+export {createLruFroidCache} from './service/createLruFroidCache';
+export {compileOperationPlan} from './service/operationPlan';
+export {
+  createStoreFroidCache,
+  jsonPlanSerializer,
+} from './service/createStoreFroidCache';
+export {
+  createMemoryFroidCacheStore,
+  createFileFroidCacheStore,
+} from './service/froidCacheStores';
+export {createFroidExecutableSchema} from './service/createFroidExecutableSchema';
 export {
   generateFroidSchema,
   FederationVersion,
@@ -16,7 +16,7 @@ import {
   print,
   specifiedScalarTypes,
 } from 'graphql';
-import {ObjectTypeNode} from './types';
+import {FroidManifest, FroidManifestKeyField, ObjectTypeNode} from './types';
 import {
   CONTRACT_DIRECTIVE_NAME,
   DEFAULT_FEDERATION_LINK_IMPORTS,
@@ -25,12 +25,14 @@ import {
   FED2_VERSION_PREFIX,
   ID_FIELD_NAME,
   ID_FIELD_TYPE,
+  NODE_INTERFACE_NAME,
 } from './constants';
 import assert from 'assert';
 import {Key} from './Key';
 import {KeyField} from './KeyField';
 import {ObjectType} from './ObjectType';
 import {sortDocumentAst} from './sortDocumentAst';
+import {createNodesFieldDefinition} from './createQueryDefinition';
 
 type SupportedFroidReturnTypes =
   | ScalarTypeDefinitionNode
@@ -52,6 +54,7 @@ export type FroidSchemaOptions = {
   nodeQualifier?: NodeQualifier;
   omittedEntityQualifier?: OmittedEntityQualifier;
   typeExceptions?: string[];
+  includeNodesField?: boolean;
 };
 
 /**
@@ -104,6 +107,10 @@ export class FroidSchema {
    * the list of types that should be omitted from the FROID schema.
    */
   private readonly typeExceptions: string[];
+  /**
+   * Whether or not the `nodes` root field will be included in the FROID schema.
+   */
+  private readonly includeNodesField: boolean;
   /**
    * Definition nodes from across the source schemas after eliminating nodes that should be ignored.
    */
@@ -147,6 +154,7 @@ export class FroidSchema {
     );
 
     this.typeExceptions = options?.typeExceptions ?? [];
+    this.includeNodesField = options?.includeNodesField ?? false;
     this.keySorter = options?.keySorter ?? defaultKeySorter;
     this.nodeQualifier = options?.nodeQualifier ?? defaultNodeQualifier;
     this.omittedEntityQualifier =
@@ -225,6 +233,73 @@ export class FroidSchema {
     return print(this.froidAst);
   }
 
+  /**
+   * Retrieve the runtime manifest of the FROID schema, describing the node
+   * types that FROID ids can be generated for and resolved to. Each node lists
+   * the key selected for it (both as a fields string and as nested key fields
+   * with their types) and the contract tags applied to its `id` field.
+   *
+   * The manifest is serializable, so it can be generated alongside the FROID
+   * schema and loaded at runtime (see loadFroidManifest).
+   *
+   * @returns {FroidManifest} The FROID manifest.
+   */
+  public toManifest(): FroidManifest {
+    return {
+      nodes: Object.values(this.froidObjectTypes)
+        .filter(({isEntity}) => isEntity)
+        .map((objectType) => {
+          const finalKey = objectType.finalKey;
+          return {
+            typename: objectType.typename,
+            ...(finalKey
+              ? {
+                  key: finalKey.toString(),
+                  keyFields: this.createManifestKeyFields(
+                    objectType,
+                    finalKey.fields
+                  ),
+                }
+              : {}),
+            tags: objectType.idFieldTags,
+          };
+        })
+        .sort((a, b) => a.typename.localeCompare(b.typename)),
+    };
+  }
+
+  /**
+   * Creates the manifest entries for key fields, including the type of each
+   * field and the key fields selected on object fields.
+   *
+   * @param {ObjectType|undefined} objectType - The object type the key fields belong to
+   * @param {KeyField[]} keyFields - The key fields
+   * @returns {FroidManifestKeyField[]} The manifest key fields
+   */
+  private createManifestKeyFields(
+    objectType: ObjectType | undefined,
+    keyFields: KeyField[]
+  ): FroidManifestKeyField[] {
+    return [...keyFields]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(({name, selections}) => {
+        const field = objectType?.allFieldRecords[name];
+        return {
+          name,
+          ...(field ? {type: print(field.type)} : {}),
+          ...(selections.length
+            ? {
+                fields: this.createManifestKeyFields(
+                  field &&
+                    this.froidObjectTypes[FroidSchema.extractFieldType(field)],
+                  selections
+                ),
+              }
+            : {}),
+        };
+      });
+  }
+
   /**
    * Finds the object types that should be included in the FROID schema.
    */
@@ -537,6 +612,7 @@ export class FroidSchema {
    * Generates AST for the following type:
    * type Query {
    *   node(id: ID!): RelayNodeEntity
+   *   nodes(ids: [ID!]!): [RelayNodeEntity]! # optional
    * }
    *
    * @returns {ObjectTypeDefinitionNode} The Query definition for the Relay Object Identification schema
@@ -589,11 +665,14 @@ export class FroidSchema {
             kind: Kind.NAMED_TYPE,
             name: {
               kind: Kind.NAME,
-              value: 'Node',
+              value: NODE_INTERFACE_NAME,
             },
           },
           directives: this.contractTags,
         },
+        ...(this.includeNodesField
+          ? [createNodesFieldDefinition(this.contractTags)]
+          : []),
       ],
     };
   }
@@ -616,7 +695,7 @@ export class FroidSchema {
       },
       name: {
         kind: Kind.NAME,
-        value: 'Node',
+        value: NODE_INTERFACE_NAME,
       },
       fields: [FroidSchema.createIdField()],
       directives: this.contractTags,
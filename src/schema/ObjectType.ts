@@ -539,12 +539,12 @@ export class ObjectType {
   }
 
   /**
-   * Get contract @tag directives for an ID field. Returns all occurrences of unique @tag
-   * directives used across all fields included in the node's @key directive
+   * The names of the contract @tags applied to the node's `id` field. Returns all
+   * unique @tag names used across all fields included in the node's @key directive
    *
-   * @returns {ConstDirectiveNode[]} A list of `@tag` directives to use for the given `id` field
+   * @returns {string[]} A sorted list of unique contract tag names
    */
-  private getTagDirectivesForIdField(): ConstDirectiveNode[] {
+  public get idFieldTags(): string[] {
     const tagDirectiveNames = this.extensionAndDefinitionNodes
       .filter((obj) => obj.name.value === this.typename)
       .flatMap((obj) => {
@@ -564,10 +564,17 @@ export class ObjectType {
       .filter(Boolean)
       .sort() as string[];
 
-    const uniqueTagDirectivesNames: string[] = [
-      ...new Set(tagDirectiveNames || []),
-    ];
-    return uniqueTagDirectivesNames.map<ConstDirectiveNode>((tagName) =>
+    return [...new Set(tagDirectiveNames || [])];
+  }
+
+  /**
+   * Get contract @tag directives for an ID field. Returns all occurrences of unique @tag
+   * directives used across all fields included in the node's @key directive
+   *
+   * @returns {ConstDirectiveNode[]} A list of `@tag` directives to use for the given `id` field
+   */
+  private getTagDirectivesForIdField(): ConstDirectiveNode[] {
+    return this.idFieldTags.map<ConstDirectiveNode>((tagName) =>
       FroidSchema.createTagDirective(tagName)
     );
   }
@@ -3034,6 +3034,56 @@ describe('FroidSchema class', () => {
     );
   });
 
+  it('includes the `nodes` root field when configured', () => {
+    const productSchema = gql`
+      type Product @key(fields: "upc") {
+        upc: String!
+        name: String
+      }
+    `;
+    const subgraphs = new Map();
+    subgraphs.set('product-subgraph', productSchema);
+
+    const froid = new FroidSchema(
+      'relay-subgraph',
+      FED2_DEFAULT_VERSION,
+      subgraphs,
+      {contractTags: ['storefront'], includeNodesField: true}
+    );
+
+    expect(froid.toString()).toEqual(
+      // prettier-ignore
+      gql`
+        extend schema @link(url: "https://specs.apollo.dev/federation/v2.0", import: ["@key", "@tag", "@external"])
+
+        "The global identification interface implemented by all entities."
+        interface Node @tag(name: "storefront") {
+          "The globally unique identifier."
+          id: ID!
+        }
+
+        type Product implements Node @key(fields: "upc") {
+          "The globally unique identifier."
+          id: ID!
+          upc: String!
+        }
+
+        type Query {
+          "Fetches an entity by its globally unique identifier."
+          node(
+            "A globally unique entity identifier."
+            id: ID!
+          ): Node @tag(name: "storefront")
+          "Fetches a list of entities by their globally unique identifiers."
+          nodes(
+            "A list of globally unique entity identifiers."
+            ids: [ID!]!
+          ): [Node]! @tag(name: "storefront")
+        }
+      `
+    );
+  });
+
   it('generates schema document AST', () => {
     const productSchema = gql`
       type Product @key(fields: "upc") {
@@ -3104,6 +3154,118 @@ describe('FroidSchema class', () => {
     );
   });
 
+  describe('toManifest() method', () => {
+    it('lists the node types of the FROID schema and their selected keys', () => {
+      const bookSchema = gql`
+        type Book @key(fields: "isbn author { authorId }") {
+          isbn: String!
+          author: Author!
+        }
+
+        type Author @key(fields: "authorId") {
+          authorId: Int!
+        }
+
+        type Review {
+          rating: Int!
+        }
+      `;
+      const userSchema = gql`
+        type User @key(fields: "userId") {
+          userId: String!
+        }
+      `;
+      const subgraphs = new Map();
+      subgraphs.set('book-subgraph', bookSchema);
+      subgraphs.set('user-subgraph', userSchema);
+
+      const froid = new FroidSchema(
+        'relay-subgraph',
+        FED2_DEFAULT_VERSION,
+        subgraphs,
+        {typeExceptions: ['User']}
+      );
+
+      expect(froid.toManifest()).toEqual({
+        nodes: [
+          {
+            typename: 'Author',
+            key: 'authorId',
+            keyFields: [{name: 'authorId', type: 'Int!'}],
+            tags: [],
+          },
+          {
+            typename: 'Book',
+            key: 'author { __typename authorId } isbn',
+            keyFields: [
+              {
+                name: 'author',
+                type: 'Author!',
+                fields: [{name: 'authorId', type: 'Int!'}],
+              },
+              {name: 'isbn', type: 'String!'},
+            ],
+            tags: [],
+          },
+        ],
+      });
+    });
+
+    it('lists the contract tags applied to the id field of each node', () => {
+      const productSchema = gql`
+        type Product @key(fields: "upc sku") {
+          upc: String! @tag(name: "storefront")
+          sku: ID! @tag(name: "internal") @tag(name: "storefront")
+          name: String @tag(name: "supplier")
+        }
+      `;
+      const subgraphs = new Map();
+      subgraphs.set('product-subgraph', productSchema);
+
+      const froid = new FroidSchema(
+        'relay-subgraph',
+        FED2_DEFAULT_VERSION,
+        subgraphs,
+        {contractTags: ['storefront', 'internal', 'supplier']}
+      );
+
+      expect(froid.toManifest()).toEqual({
+        nodes: [
+          {
+            typename: 'Product',
+            key: 'sku upc',
+            keyFields: [
+              {name: 'sku', type: 'ID!'},
+              {name: 'upc', type: 'String!'},
+            ],
+            tags: ['internal', 'storefront', 'supplier'],
+          },
+        ],
+      });
+    });
+
+    it('is serializable', () => {
+      const productSchema = gql`
+        type Product @key(fields: "upc") {
+          upc: String!
+        }
+      `;
+      const subgraphs = new Map();
+      subgraphs.set('product-subgraph', productSchema);
+
+      const froid = new FroidSchema(
+        'relay-subgraph',
+        FED2_DEFAULT_VERSION,
+        subgraphs,
+        {}
+      );
+
+      expect(JSON.parse(JSON.stringify(froid.toManifest()))).toEqual(
+        froid.toManifest()
+      );
+    });
+  });
+
   describe('createLinkSchemaExtension() method', () => {
     it('throws an error if no links are provided', () => {
       let errorMessage = '';
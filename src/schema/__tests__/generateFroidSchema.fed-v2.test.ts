@@ -11,6 +11,7 @@ function generateSchema({
   federationVersion,
   nodeQualifier,
   keySorter,
+  includeNodesField,
 }: {
   subgraphs: Map<string, string>;
   froidSubgraphName: string;
@@ -22,6 +23,7 @@ function generateSchema({
     objectTypes: Record<string, ObjectTypeNode>
   ) => boolean;
   keySorter?: (keys: string[], node: ObjectTypeNode) => string[];
+  includeNodesField?: boolean;
 }) {
   return print(
     generateFroidSchema(subgraphs, froidSubgraphName, {
@@ -30,6 +32,7 @@ function generateSchema({
       nodeQualifier,
       federationVersion,
       keySorter,
+      includeNodesField,
     })
   );
 }
@@ -108,6 +111,41 @@ describe('generateFroidSchema for federation v2', () => {
     );
   });
 
+  it('includes the `nodes` root field when configured', () => {
+    const productSchema = gql`
+      type Product @key(fields: "upc") {
+        upc: String!
+        name: String
+      }
+    `;
+    const subgraphs = new Map();
+    subgraphs.set('product-subgraph', productSchema);
+
+    const actual = generateSchema({
+      subgraphs,
+      froidSubgraphName: 'relay-subgraph',
+      includeNodesField: true,
+    });
+
+    expect(actual).toMatch(
+      // prettier-ignore
+      gql`
+        type Query {
+          "Fetches an entity by its globally unique identifier."
+          node(
+            "A globally unique entity identifier."
+            id: ID!
+          ): Node
+          "Fetches a list of entities by their globally unique identifiers."
+          nodes(
+            "A list of globally unique entity identifiers."
+            ids: [ID!]!
+          ): [Node]!
+        }
+      `
+    );
+  });
+
   it('ignores @key(fields: "id") directives', () => {
     const productSchema = gql`
       type Query {
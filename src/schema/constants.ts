@@ -6,6 +6,10 @@ export const FED2_VERSION_PREFIX = 'v2.';
 export const FED2_OPT_IN_URL = 'https://specs.apollo.dev/federation/';
 export const ID_FIELD_NAME = 'id';
 export const ID_FIELD_TYPE = 'ID';
+export const IDS_ARGUMENT_NAME = 'ids';
+export const NODE_FIELD_NAME = 'node';
+export const NODES_FIELD_NAME = 'nodes';
+export const NODE_INTERFACE_NAME = 'Node';
 export const TYPENAME_FIELD_NAME = '__typename';
 
 export enum Directive {
@@ -1,17 +1,99 @@
-import {ConstDirectiveNode, Kind, ObjectTypeDefinitionNode} from 'graphql';
-import {ID_FIELD_NAME, ID_FIELD_TYPE} from './constants';
+import {
+  ConstDirectiveNode,
+  FieldDefinitionNode,
+  Kind,
+  ObjectTypeDefinitionNode,
+} from 'graphql';
+import {
+  ID_FIELD_NAME,
+  ID_FIELD_TYPE,
+  IDS_ARGUMENT_NAME,
+  NODE_FIELD_NAME,
+  NODE_INTERFACE_NAME,
+  NODES_FIELD_NAME,
+} from './constants';
+
+/**
+ * Generates AST for the following field:
+ * nodes(ids: [ID!]!): [Node]!
+ *
+ * @param {ConstDirectiveNode[]} allTagDirectives = The full list of supported contract tags
+ * @returns {FieldDefinitionNode} The `nodes` field definition
+ */
+export function createNodesFieldDefinition(
+  allTagDirectives: ConstDirectiveNode[]
+): FieldDefinitionNode {
+  return {
+    kind: Kind.FIELD_DEFINITION,
+    description: {
+      kind: Kind.STRING,
+      value: 'Fetches a list of entities by their globally unique identifiers.',
+    },
+    name: {
+      kind: Kind.NAME,
+      value: NODES_FIELD_NAME,
+    },
+    arguments: [
+      {
+        kind: Kind.INPUT_VALUE_DEFINITION,
+        description: {
+          kind: Kind.STRING,
+          value: 'A list of globally unique entity identifiers.',
+        },
+        name: {
+          kind: Kind.NAME,
+          value: IDS_ARGUMENT_NAME,
+        },
+        type: {
+          kind: Kind.NON_NULL_TYPE,
+          type: {
+            kind: Kind.LIST_TYPE,
+            type: {
+              kind: Kind.NON_NULL_TYPE,
+              type: {
+                kind: Kind.NAMED_TYPE,
+                name: {
+                  kind: Kind.NAME,
+                  value: ID_FIELD_TYPE,
+                },
+              },
+            },
+          },
+        },
+        directives: [],
+      },
+    ],
+    type: {
+      kind: Kind.NON_NULL_TYPE,
+      type: {
+        kind: Kind.LIST_TYPE,
+        type: {
+          kind: Kind.NAMED_TYPE,
+          name: {
+            kind: Kind.NAME,
+            value: NODE_INTERFACE_NAME,
+          },
+        },
+      },
+    },
+    directives: allTagDirectives,
+  };
+}
 
 /**
  * Generates AST for the following type:
  * type Query {
  *   node(id: ID!): RelayNodeEntity
+ *   nodes(ids: [ID!]!): [RelayNodeEntity]! # optional
  * }
  *
  * @param {ConstDirectiveNode[]} allTagDirectives = The full list of supported contract tags
+ * @param {boolean} includeNodesField - Whether or not to include the `nodes` field
  * @returns {ObjectTypeDefinitionNode} The Query definition for the Relay Object Identification schema
  */
 export function createQueryDefinition(
-  allTagDirectives: ConstDirectiveNode[]
+  allTagDirectives: ConstDirectiveNode[],
+  includeNodesField = false
 ): ObjectTypeDefinitionNode {
   return {
     kind: Kind.OBJECT_TYPE_DEFINITION,
@@ -30,7 +112,7 @@ export function createQueryDefinition(
         },
         name: {
           kind: Kind.NAME,
-          value: 'node',
+          value: NODE_FIELD_NAME,
         },
         arguments: [
           {
@@ -60,11 +142,14 @@ export function createQueryDefinition(
           kind: Kind.NAMED_TYPE,
           name: {
             kind: Kind.NAME,
-            value: 'Node',
+            value: NODE_INTERFACE_NAME,
           },
         },
         directives: allTagDirectives,
       },
+      ...(includeNodesField
+        ? [createNodesFieldDefinition(allTagDirectives)]
+        : []),
     ],
   };
 }
@@ -315,6 +315,7 @@ export type GenerateRelayServiceSchemaOptions = {
     objectTypes: Record<string, ObjectTypeNode>
   ) => boolean;
   keySorter?: KeySorter;
+  includeNodesField?: boolean;
 };
 
 /**
@@ -326,6 +327,7 @@ export type GenerateRelayServiceSchemaOptions = {
  * @param {string[]} options.contractTags - A list of supported contract tags
  * @param {FederationVersion} options.federationVersion - The version of federation to generate schema for
  * @param {string[]} options.typeExceptions - Types to exclude from `id` field generation
+ * @param {boolean} options.includeNodesField - Whether or not to generate the `nodes(ids: [ID!]!)` root field
  * @returns {DocumentNode[]} The Relay Object Identification schema
  */
 export function generateFroidSchema(
@@ -467,7 +469,7 @@ export function generateFroidSchema(
         filteredDefinitionNodes,
         federationVersion
       ),
-      createQueryDefinition(allTagDirectives),
+      createQueryDefinition(allTagDirectives, options?.includeNodesField),
       createNodeInterface(allTagDirectives),
       ...Object.values(relayObjectTypes),
     ],
@@ -14,3 +14,17 @@ export type RelayObjectType = {
   includeInUnion: boolean;
   node: ObjectTypeNode;
 };
+export type FroidManifestKeyField = {
+  name: string;
+  type?: string;
+  fields?: FroidManifestKeyField[];
+};
+export type FroidManifestNode = {
+  typename: string;
+  key?: string;
+  keyFields?: FroidManifestKeyField[];
+  tags?: string[];
+};
+export type FroidManifest = {
+  nodes: FroidManifestNode[];
+};
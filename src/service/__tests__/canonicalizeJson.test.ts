@@ -0,0 +1,67 @@
+import {canonicalizeJson} from '../canonicalizeJson';
+
+describe('canonicalizeJson', () => {
+  it('sorts object members by their name at every level', () => {
+    expect(canonicalizeJson({b: 1, a: {d: 2, c: [{f: 3, e: 4}]}})).toEqual(
+      '{"a":{"c":[{"e":4,"f":3}],"d":2},"b":1}'
+    );
+  });
+
+  it('sorts object members by the UTF-16 code units of their name', () => {
+    expect(
+      canonicalizeJson({
+        '\u20ac': 'Euro',
+        '\r': 'CR',
+        '1': 'One',
+        '\ud83d\ude00': 'Smiley',
+        '\u00f6': 'Latin',
+      })
+    ).toEqual(
+      '{"\\r":"CR","1":"One","\u00f6":"Latin","\u20ac":"Euro","\ud83d\ude00":"Smiley"}'
+    );
+  });
+
+  it('preserves the order of arrays', () => {
+    expect(canonicalizeJson([3, 1, 2])).toEqual('[3,1,2]');
+  });
+
+  it('serializes literals', () => {
+    expect(canonicalizeJson([null, true, false])).toEqual('[null,true,false]');
+  });
+
+  it.each([
+    [0, '0'],
+    [-0, '0'],
+    [1.0, '1'],
+    [-1.5, '-1.5'],
+    [1e21, '1e+21'],
+    [1e-7, '1e-7'],
+    [0.000001, '0.000001'],
+    [1 / 3, '0.3333333333333333'],
+    [Number.MAX_SAFE_INTEGER, '9007199254740991'],
+  ])('serializes the number %p as %p', (value, expected) => {
+    expect(canonicalizeJson(value)).toEqual(expected);
+  });
+
+  it('escapes strings', () => {
+    expect(canonicalizeJson('a"b\\c\n\u0001')).toEqual(
+      '"a\\"b\\\\c\\n\\u0001"'
+    );
+  });
+
+  it('omits object members whose value is undefined', () => {
+    expect(canonicalizeJson({a: undefined, b: 1})).toEqual('{"b":1}');
+  });
+
+  it.each([NaN, Infinity, -Infinity])('throws for the number %p', (value) => {
+    expect(() => canonicalizeJson(value)).toThrow(
+      `Unable to canonicalize the number "${value}"`
+    );
+  });
+
+  it('throws for values that are not JSON values', () => {
+    expect(() => canonicalizeJson({a: BigInt(1)})).toThrow(
+      'Unable to canonicalize a value of type "bigint"'
+    );
+  });
+});
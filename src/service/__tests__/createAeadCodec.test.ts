@@ -0,0 +1,130 @@
+import crypto from 'crypto';
+import {toGlobalId} from 'graphql-relay';
+import {createAeadCodec} from '../createAeadCodec';
+import {handleFroidRequest} from '../handleFroidRequest';
+import {testGql as gql} from '../../__tests__/helpers';
+
+describe('createAeadCodec', () => {
+  const key1 = crypto.randomBytes(32);
+  const key2 = crypto.randomBytes(32).toString('base64');
+  const value = JSON.stringify({firstName: 'John', lastName: 'Doe'});
+
+  it('encrypts values with the active key and decrypts them', () => {
+    const {encode, decode} = createAeadCodec({
+      keys: {key1},
+      activeKeyId: 'key1',
+    });
+
+    const encoded = encode(value, {}) as string;
+
+    expect(encoded.startsWith('key1.')).toBe(true);
+    expect(encoded).not.toContain('John');
+    expect(decode(encoded, {})).toEqual(value);
+  });
+
+  it('uses a random nonce for each encoded value', () => {
+    const {encode} = createAeadCodec({keys: {key1}, activeKeyId: 'key1'});
+
+    expect(encode(value, {})).not.toEqual(encode(value, {}));
+  });
+
+  it('decodes values encrypted with a previously active key', () => {
+    const oldCodec = createAeadCodec({keys: {key1}, activeKeyId: 'key1'});
+    const newCodec = createAeadCodec({
+      keys: {key1, key2},
+      activeKeyId: 'key2',
+    });
+
+    const encoded = oldCodec.encode(value, {}) as string;
+
+    expect(newCodec.decode(encoded, {})).toEqual(value);
+    expect(newCodec.encode(value, {})).toMatch(/^key2\./);
+  });
+
+  it('rejects values encrypted with an unknown key', () => {
+    const oldCodec = createAeadCodec({keys: {key1}, activeKeyId: 'key1'});
+    const newCodec = createAeadCodec({keys: {key2}, activeKeyId: 'key2'});
+
+    const encoded = oldCodec.encode(value, {}) as string;
+
+    expect(() => newCodec.decode(encoded, {})).toThrow(
+      'Unable to decrypt id: unknown key'
+    );
+  });
+
+  it('rejects tampered values', () => {
+    const {encode, decode} = createAeadCodec({
+      keys: {key1},
+      activeKeyId: 'key1',
+    });
+
+    const [keyId, payload] = (encode(value, {}) as string).split('.');
+    const tampered = Buffer.from(payload, 'base64');
+    tampered[tampered.length - 20] ^= 1;
+
+    expect(() => decode(`${keyId}.${tampered.toString('base64')}`, {})).toThrow(
+      expect.objectContaining({
+        message: 'Unable to decrypt id',
+        extensions: {code: 'DECODE_FAILED'},
+      })
+    );
+  });
+
+  it('authenticates the key id of encoded values', () => {
+    const {encode, decode} = createAeadCodec({
+      keys: {key1, key2: key1},
+      activeKeyId: 'key1',
+    });
+
+    const [, payload] = (encode(value, {}) as string).split('.');
+
+    expect(() => decode(`key2.${payload}`, {})).toThrow('Unable to decrypt id');
+  });
+
+  it('throws when configured with an invalid key', () => {
+    expect(() =>
+      createAeadCodec({keys: {key1: 'too short'}, activeKeyId: 'key1'})
+    ).toThrow('Invalid key "key1". Keys must be 32 bytes long.');
+  });
+
+  it('throws when configured with an invalid key id', () => {
+    expect(() =>
+      createAeadCodec({keys: {'key.1': key1}, activeKeyId: 'key.1'})
+    ).toThrow(
+      'Invalid key id "key.1". Key ids may only contain letters, numbers, "_" and "-".'
+    );
+  });
+
+  it('throws when the active key is not configured', () => {
+    expect(() => createAeadCodec({keys: {key1}, activeKeyId: 'key2'})).toThrow(
+      'The active key "key2" is not a configured key.'
+    );
+  });
+
+  it('can be used with handleFroidRequest', async () => {
+    const codec = createAeadCodec({keys: {key1}, activeKeyId: 'key1'});
+    const representation = {__typename: 'Author', authorId: 1};
+
+    const {
+      data: {
+        _entities: [{id}],
+      },
+    } = await handleFroidRequest(
+      {query: '', variables: {representations: [representation]}},
+      codec
+    );
+    const query = gql`
+      query GetAuthor($id: ID!) {
+        node(id: $id) {
+          id
+        }
+      }
+    `;
+    const result = await handleFroidRequest({query, variables: {id}}, codec);
+
+    expect(id).not.toEqual(toGlobalId('Author', '{"authorId":1}'));
+    expect(result).toEqual({
+      data: {node: {__typename: 'Author', id, authorId: 1}},
+    });
+  });
+});
@@ -0,0 +1,393 @@
+import {graphql} from 'graphql';
+import {toGlobalId} from 'graphql-relay';
+import {createFroidExecutableSchema} from '../createFroidExecutableSchema';
+import {handleFroidRequest} from '../handleFroidRequest';
+import {FroidSchema} from '../../schema/FroidSchema';
+import {FED2_DEFAULT_VERSION} from '../../schema/constants';
+import {testGql as gql} from '../../__tests__/helpers';
+
+function createFroidSchema() {
+  const subgraphs = new Map();
+  subgraphs.set(
+    'author-subgraph',
+    gql`
+      type Query {
+        authors: [Author]
+      }
+
+      type Author @key(fields: "firstName lastName") {
+        firstName: String!
+        lastName: String!
+        fullName: String!
+      }
+    `
+  );
+
+  return new FroidSchema('relay-subgraph', FED2_DEFAULT_VERSION, subgraphs, {
+    includeNodesField: true,
+  });
+}
+
+describe('createFroidExecutableSchema', () => {
+  const authorEntityKey = {firstName: 'John', lastName: 'Doe'};
+  const id = toGlobalId('Author', JSON.stringify(authorEntityKey));
+
+  it('resolves the `node` field', async () => {
+    const schema = createFroidExecutableSchema(createFroidSchema());
+
+    const result = await graphql({
+      schema,
+      source: gql`
+        query GetAuthor($id: ID!) {
+          node(id: $id) {
+            __typename
+            ...AuthorFields
+          }
+        }
+
+        fragment AuthorFields on Author {
+          authorId: id
+          firstName
+        }
+      `,
+      variableValues: {id},
+    });
+
+    expect(result).toEqual({
+      data: {
+        node: {__typename: 'Author', authorId: id, firstName: 'John'},
+      },
+    });
+  });
+
+  it('resolves the `nodes` field with an error for each invalid id', async () => {
+    const schema = createFroidExecutableSchema(createFroidSchema());
+
+    const result = await graphql({
+      schema,
+      source: gql`
+        query GetAuthors($ids: [ID!]!) {
+          nodes(ids: $ids) {
+            id
+          }
+        }
+      `,
+      variableValues: {ids: [id, 'invalid id']},
+    });
+
+    expect(result.data).toEqual({nodes: [{id}, null]});
+    expect(result.errors?.map((error) => error.toJSON())).toEqual([
+      {
+        message: 'Invalid id type ""',
+        locations: [{line: 3, column: 11}],
+        path: ['nodes', 1],
+        extensions: {code: 'INVALID_ID_TYPE'},
+      },
+    ]);
+  });
+
+  it('resolves the `_entities` field', async () => {
+    const encode = (value) => `abc${value}abc`;
+    const schema = createFroidExecutableSchema(createFroidSchema(), {encode});
+
+    const result = await graphql({
+      schema,
+      source: gql`
+        query GetEntities($representations: [_Any!]!) {
+          _entities(representations: $representations) {
+            ... on Author {
+              __typename
+              id
+            }
+          }
+        }
+      `,
+      variableValues: {
+        representations: [{__typename: 'Author', ...authorEntityKey}],
+      },
+    });
+
+    expect(result).toEqual({
+      data: {
+        _entities: [
+          {
+            __typename: 'Author',
+            id: toGlobalId(
+              'Author',
+              `abc${JSON.stringify(authorEntityKey)}abc`
+            ),
+          },
+        ],
+      },
+    });
+  });
+
+  it('normalizes `_entities` representations to the selected key when configured', async () => {
+    const schema = createFroidExecutableSchema(createFroidSchema(), {
+      normalizeRepresentations: true,
+    });
+
+    const result = await graphql({
+      schema,
+      source: gql`
+        query GetEntities($representations: [_Any!]!) {
+          _entities(representations: $representations) {
+            ... on Author {
+              id
+            }
+          }
+        }
+      `,
+      variableValues: {
+        representations: [
+          {__typename: 'Author', ...authorEntityKey, fullName: 'John Doe'},
+          {__typename: 'Author', firstName: 'John'},
+        ],
+      },
+    });
+
+    expect(result).toEqual({
+      data: {_entities: [{id}, null]},
+      errors: [
+        expect.objectContaining({
+          message: 'Invalid key for type "Author": missing field "lastName"',
+          path: ['_entities', 1],
+          extensions: {code: 'INVALID_ID_KEY'},
+        }),
+      ],
+    });
+  });
+
+  it('resolves the `_service` field', async () => {
+    const froidSchema = createFroidSchema();
+    const schema = createFroidExecutableSchema(froidSchema);
+
+    const result = await graphql({
+      schema,
+      source: gql`
+        query {
+          _service {
+            sdl
+          }
+        }
+      `,
+    });
+
+    expect(result).toEqual({
+      data: {_service: {sdl: froidSchema.toString()}},
+    });
+  });
+
+  it('validates requests against the FROID schema', async () => {
+    const schema = createFroidExecutableSchema(createFroidSchema());
+
+    const result = await graphql({
+      schema,
+      source: gql`
+        query GetAuthor($id: ID!) {
+          node(id: $id) {
+            ... on Author {
+              books
+            }
+          }
+        }
+      `,
+      variableValues: {id},
+    });
+
+    expect(result.errors?.map((error) => error.message)).toEqual([
+      'Cannot query field "books" on type "Author".',
+    ]);
+  });
+
+  it('can be used to execute requests with handleFroidRequest', async () => {
+    const schema = createFroidExecutableSchema(createFroidSchema());
+
+    const result = await handleFroidRequest(
+      {
+        query: gql`
+          query GetAuthor($id: ID!) {
+            node(id: $id) {
+              __typename
+              id
+            }
+          }
+        `,
+        variables: {id},
+      },
+      {schema}
+    );
+
+    expect(result).toEqual({
+      data: {node: {__typename: 'Author', id}},
+    });
+  });
+
+  it('times out slow decoding when executed with handleFroidRequest', async () => {
+    const decode = () => new Promise<string>(() => undefined);
+    const schema = createFroidExecutableSchema(createFroidSchema(), {decode});
+
+    const result = await handleFroidRequest(
+      {
+        query: gql`
+          query GetAuthor($id: ID!) {
+            node(id: $id) {
+              id
+            }
+          }
+        `,
+        variables: {id},
+      },
+      {schema, timeout: 10}
+    );
+
+    expect(result.data).toEqual({node: null});
+    expect(result.errors?.map((error) => error.message)).toEqual([
+      'The request timed out after 10ms',
+    ]);
+  });
+
+  describe('when limits are configured', () => {
+    const query = gql`
+      query GetAuthors($id: ID!) {
+        first: node(id: $id) {
+          id
+        }
+        second: node(id: $id) {
+          id
+        }
+      }
+    `;
+
+    it('rejects operations requesting more nodes than allowed before executing them', async () => {
+      const decode = jest.fn((value: string) => value);
+      const schema = createFroidExecutableSchema(createFroidSchema(), {
+        decode,
+      });
+
+      const result = await handleFroidRequest(
+        {query, variables: {id}},
+        {schema, limits: {maxNodeSelections: 1}}
+      );
+
+      expect(decode).not.toHaveBeenCalled();
+      expect(result.errors?.map((error) => error.toJSON())).toEqual([
+        {
+          message:
+            'The operation requests 2 nodes, which exceeds the limit of 1',
+          extensions: {code: 'LIMIT_EXCEEDED'},
+        },
+      ]);
+      expect(result.data).toBeUndefined();
+    });
+
+    it('rejects documents with more tokens than allowed before parsing them', async () => {
+      const schema = createFroidExecutableSchema(createFroidSchema());
+
+      const result = await handleFroidRequest(
+        {query, variables: {id}},
+        {schema, limits: {maxTokens: 10}}
+      );
+
+      expect(result.errors?.map((error) => error.message)).toEqual([
+        expect.stringMatching(
+          /^Syntax Error: Document contains more .* 10 tokens/
+        ),
+      ]);
+      expect(result.data).toBeUndefined();
+    });
+
+    it('rejects ids exceeding the limits of the request', async () => {
+      const schema = createFroidExecutableSchema(createFroidSchema(), {
+        limits: {maxIdLength: id.length},
+      });
+
+      const result = await handleFroidRequest(
+        {query, variables: {id}},
+        {schema, limits: {maxIdLength: 10}}
+      );
+
+      expect(result.data).toEqual({first: null, second: null});
+      expect(result.errors?.map((error) => error.toJSON())).toEqual([
+        {
+          message: 'Id exceeds the maximum length of 10 characters',
+          locations: [{line: 3, column: 9}],
+          path: ['first'],
+          extensions: {code: 'LIMIT_EXCEEDED'},
+        },
+        {
+          message: 'Id exceeds the maximum length of 10 characters',
+          locations: [{line: 6, column: 9}],
+          path: ['second'],
+          extensions: {code: 'LIMIT_EXCEEDED'},
+        },
+      ]);
+    });
+
+    it('rejects `_entities` batches with more representations than allowed', async () => {
+      const encode = jest.fn((value: string) => value);
+      const schema = createFroidExecutableSchema(createFroidSchema(), {
+        encode,
+        limits: {maxRepresentations: 1},
+      });
+
+      const result = await graphql({
+        schema,
+        source: gql`
+          query GetEntities($representations: [_Any!]!) {
+            _entities(representations: $representations) {
+              ... on Author {
+                id
+              }
+            }
+          }
+        `,
+        variableValues: {
+          representations: [
+            {__typename: 'Author', ...authorEntityKey},
+            {__typename: 'Author', ...authorEntityKey},
+          ],
+        },
+      });
+
+      expect(encode).not.toHaveBeenCalled();
+      expect(result.data).toBeNull();
+      expect(result.errors?.map((error) => error.toJSON())).toEqual([
+        {
+          message:
+            'The batch contains 2 representations, which exceeds the limit of 1',
+          locations: [{line: 3, column: 13}],
+          path: ['_entities'],
+          extensions: {code: 'LIMIT_EXCEEDED'},
+        },
+      ]);
+    });
+  });
+
+  it('rejects ids for types that are not nodes of the FROID schema', async () => {
+    const schema = createFroidExecutableSchema(createFroidSchema());
+    const bookId = toGlobalId('Book', JSON.stringify({isbn: '123'}));
+
+    const result = await graphql({
+      schema,
+      source: gql`
+        query GetNode($id: ID!) {
+          node(id: $id) {
+            id
+          }
+        }
+      `,
+      variableValues: {id: bookId},
+    });
+
+    expect(result.data).toEqual({node: null});
+    expect(result.errors?.map((error) => error.toJSON())).toEqual([
+      {
+        message: 'Invalid id type "Book"',
+        locations: [{line: 3, column: 11}],
+        path: ['node'],
+        extensions: {code: 'INVALID_ID_TYPE'},
+      },
+    ]);
+  });
+});
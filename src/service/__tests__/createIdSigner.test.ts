@@ -0,0 +1,153 @@
+import {fromGlobalId, toGlobalId} from 'graphql-relay';
+import {createIdSigner} from '../createIdSigner';
+import {handleFroidRequest} from '../handleFroidRequest';
+import {testGql as gql} from '../../__tests__/helpers';
+
+describe('createIdSigner', () => {
+  const keyValue = '{"authorId":1}';
+
+  it('appends a truncated signature to the payload', () => {
+    const signer = createIdSigner({secret: 'secret'});
+
+    const signedPayload = signer.sign('Author', keyValue);
+
+    expect(signedPayload).toMatch(/^\{"authorId":1\}\.[A-Za-z0-9_-]{22}$/);
+    expect(signer.unwrap(signedPayload)).toEqual({
+      payload: keyValue,
+      signature: signedPayload.split('.')[1],
+    });
+  });
+
+  it('verifies signatures created with the signing secret', () => {
+    const signer = createIdSigner({secret: 'secret'});
+    const {signature} = signer.unwrap(signer.sign('Author', keyValue));
+
+    expect(() => signer.verify('Author', keyValue, signature)).not.toThrow();
+  });
+
+  it('verifies signatures created with a verification secret', () => {
+    const oldSigner = createIdSigner({secret: 'old secret'});
+    const newSigner = createIdSigner({
+      secret: 'new secret',
+      verificationSecrets: ['old secret'],
+    });
+    const {signature} = oldSigner.unwrap(oldSigner.sign('Author', keyValue));
+
+    expect(() => newSigner.verify('Author', keyValue, signature)).not.toThrow();
+  });
+
+  it('rejects signatures that do not match the type name and payload', () => {
+    const signer = createIdSigner({secret: 'secret'});
+    const {signature} = signer.unwrap(signer.sign('Author', keyValue));
+
+    expect(() => signer.verify('Book', keyValue, signature)).toThrow(
+      'Invalid id signature'
+    );
+    expect(() => signer.verify('Author', '{"authorId":2}', signature)).toThrow(
+      'Invalid id signature'
+    );
+  });
+
+  it('rejects payloads without a signature', () => {
+    const signer = createIdSigner({secret: 'secret'});
+
+    expect(() => signer.unwrap('{"authorId":1}')).toThrow(
+      'Invalid id signature'
+    );
+  });
+
+  describe('when used with handleFroidRequest', () => {
+    const query = gql`
+      query GetAuthor($id: ID!) {
+        node(id: $id) {
+          id
+        }
+      }
+    `;
+    const signing = {secret: 'secret'};
+
+    const generateId = async () => {
+      const result = await handleFroidRequest(
+        {
+          query: '',
+          variables: {
+            representations: [{__typename: 'Author', authorId: 1}],
+          },
+        },
+        {signing}
+      );
+      return result.data._entities[0].id;
+    };
+
+    it('resolves signed ids', async () => {
+      const id = await generateId();
+
+      const result = await handleFroidRequest(
+        {query, variables: {id}},
+        {signing}
+      );
+
+      expect(result).toEqual({
+        data: {node: {__typename: 'Author', id, authorId: 1}},
+      });
+    });
+
+    it('rejects ids whose key values were tampered with', async () => {
+      const {type, id: signedPayload} = fromGlobalId(await generateId());
+      const id = toGlobalId(
+        type,
+        signedPayload.replace('"authorId":1', '"authorId":2')
+      );
+
+      const result = await handleFroidRequest(
+        {query, variables: {id}},
+        {signing}
+      );
+
+      expect(result).toEqual({
+        data: {node: null},
+        errors: [
+          {
+            message: 'Invalid id signature',
+            path: ['node'],
+            extensions: {code: 'INVALID_ID_SIGNATURE'},
+          },
+        ],
+      });
+    });
+
+    it('rejects tampered ids before decoding them', async () => {
+      const decode = jest.fn((value: string) => value);
+      const {type, id: signedPayload} = fromGlobalId(await generateId());
+      const id = toGlobalId(
+        type,
+        signedPayload.replace('"authorId":1', '"authorId":2')
+      );
+
+      const result = await handleFroidRequest(
+        {query, variables: {id}},
+        {signing, decode}
+      );
+
+      expect(result.data).toEqual({node: null});
+      expect(decode).not.toHaveBeenCalled();
+    });
+
+    it('rejects unsigned ids', async () => {
+      const id = toGlobalId('Author', '{"authorId":1}');
+
+      const result = await handleFroidRequest(
+        {query, variables: {id}},
+        {signing}
+      );
+
+      expect(result.errors).toEqual([
+        {
+          message: 'Invalid id signature',
+          path: ['node'],
+          extensions: {code: 'INVALID_ID_SIGNATURE'},
+        },
+      ]);
+    });
+  });
+});
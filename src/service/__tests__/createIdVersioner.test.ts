@@ -0,0 +1,135 @@
+import {toGlobalId} from 'graphql-relay';
+import {createIdVersioner} from '../createIdVersioner';
+import {handleFroidRequest} from '../handleFroidRequest';
+import {testGql as gql} from '../../__tests__/helpers';
+
+describe('createIdVersioner', () => {
+  const decode = (value: string) => value;
+  const decodeV1 = (value: string) => Buffer.from(value, 'hex').toString();
+
+  it('tags payloads with the current version', () => {
+    const versioner = createIdVersioner({currentVersion: 2});
+
+    expect(versioner.wrap('payload')).toEqual('v2:payload');
+  });
+
+  it('decodes payloads tagged with the current version with the default decoder', () => {
+    const versioner = createIdVersioner({currentVersion: 2});
+
+    expect(versioner.unwrap('v2:payload', decode)).toEqual({
+      payload: 'payload',
+      decode,
+    });
+  });
+
+  it('decodes untagged payloads with the default decoder', () => {
+    const versioner = createIdVersioner({currentVersion: 2});
+
+    expect(versioner.unwrap('payload', decode)).toEqual({
+      payload: 'payload',
+      decode,
+    });
+  });
+
+  it('decodes payloads with the decoder registered for their version', () => {
+    const decodeV0 = jest.fn();
+    const versioner = createIdVersioner({
+      currentVersion: 2,
+      decoders: {0: decodeV0, 1: decodeV1},
+    });
+
+    expect(versioner.unwrap('v1:payload', decode)).toEqual({
+      payload: 'payload',
+      decode: decodeV1,
+    });
+    expect(versioner.unwrap('payload', decode)).toEqual({
+      payload: 'payload',
+      decode: decodeV0,
+    });
+  });
+
+  it('rejects payloads tagged with an unsupported version', () => {
+    const versioner = createIdVersioner({currentVersion: 2});
+
+    expect(() => versioner.unwrap('v1:payload', decode)).toThrow(
+      'Unsupported id version "1"'
+    );
+  });
+
+  it('throws when configured with an invalid current version', () => {
+    expect(() => createIdVersioner({currentVersion: 1.5})).toThrow(
+      'Invalid id version "1.5". Versions must be positive integers.'
+    );
+  });
+
+  describe('when used with handleFroidRequest', () => {
+    const query = gql`
+      query GetAuthors($ids: [ID!]!) {
+        nodes(ids: $ids) {
+          id
+        }
+      }
+    `;
+    const versioning = {currentVersion: 2, decoders: {1: decodeV1}};
+
+    it('always generates ids with the current version', async () => {
+      const result = await handleFroidRequest(
+        {
+          query: '',
+          variables: {
+            representations: [{__typename: 'Author', authorId: 1}],
+          },
+        },
+        {versioning}
+      );
+
+      expect(result).toEqual({
+        data: {
+          _entities: [
+            {
+              __typename: 'Author',
+              id: toGlobalId('Author', 'v2:{"authorId":1}'),
+            },
+          ],
+        },
+      });
+    });
+
+    it('resolves ids of every supported version', async () => {
+      const ids = [
+        toGlobalId('Author', '{"authorId":1}'),
+        toGlobalId(
+          'Author',
+          `v1:${Buffer.from('{"authorId":2}').toString('hex')}`
+        ),
+        toGlobalId('Author', 'v2:{"authorId":3}'),
+        toGlobalId('Author', 'v3:{"authorId":4}'),
+      ];
+
+      const result = await handleFroidRequest(
+        {query, variables: {ids}},
+        {versioning}
+      );
+
+      expect(result).toEqual({
+        data: {
+          nodes: [
+            {__typename: 'Author', id: ids[0], authorId: 1},
+            {__typename: 'Author', id: ids[1], authorId: 2},
+            {__typename: 'Author', id: ids[2], authorId: 3},
+            null,
+          ],
+        },
+        errors: [
+          {
+            message: 'Unsupported id version "3"',
+            path: ['nodes', 3],
+            extensions: {
+              code: 'UNSUPPORTED_ID_VERSION',
+            },
+          },
+        ],
+      });
+    });
+  });
+});
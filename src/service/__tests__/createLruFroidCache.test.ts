@@ -0,0 +1,143 @@
+import {parse} from 'graphql';
+import {createLruFroidCache} from '../createLruFroidCache';
+import {compileOperationPlan} from '../operationPlan';
+import {jsonPlanSerializer} from '../createStoreFroidCache';
+import {generateEntityObjectsById} from '../generateEntityObjectsById';
+import {testGql as gql} from '../../__tests__/helpers';
+
+describe('createLruFroidCache', () => {
+  const queries = ['{ a }', '{ b }', '{ c }'];
+  const plans = queries.map((query) => compileOperationPlan(parse(query)));
+  // The plans of the queries all serialize to the same number of bytes
+  const planBytes = Buffer.byteLength(jsonPlanSerializer.serialize(plans[0]));
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('returns cached plans and counts hits and misses', () => {
+    const cache = createLruFroidCache();
+
+    expect(cache.get(queries[0])).toBeUndefined();
+    cache.set(queries[0], plans[0]);
+
+    expect(cache.get(queries[0])).toBe(plans[0]);
+    expect(cache.stats()).toEqual({
+      hits: 1,
+      misses: 1,
+      evictions: 0,
+      entries: 1,
+      bytes: planBytes,
+    });
+  });
+
+  it('evicts the least recently used plan once maxEntries is reached', () => {
+    const cache = createLruFroidCache({maxEntries: 2});
+
+    cache.set(queries[0], plans[0]);
+    cache.set(queries[1], plans[1]);
+    cache.get(queries[0]);
+    cache.set(queries[2], plans[2]);
+
+    expect(cache.get(queries[0])).toBe(plans[0]);
+    expect(cache.get(queries[1])).toBeUndefined();
+    expect(cache.get(queries[2])).toBe(plans[2]);
+    expect(cache.stats()).toMatchObject({evictions: 1, entries: 2});
+  });
+
+  it('evicts the least recently used plans once maxBytes is exceeded', () => {
+    const cache = createLruFroidCache({maxBytes: planBytes * 2 + 1});
+
+    cache.set(queries[0], plans[0]);
+    cache.set(queries[1], plans[1]);
+    cache.set(queries[2], plans[2]);
+
+    expect(cache.get(queries[0])).toBeUndefined();
+    expect(cache.stats()).toMatchObject({
+      evictions: 1,
+      entries: 2,
+      bytes: planBytes * 2,
+    });
+  });
+
+  it('does not cache plans larger than maxBytes', () => {
+    const cache = createLruFroidCache({maxBytes: planBytes - 1});
+
+    cache.set(queries[0], plans[0]);
+
+    expect(cache.get(queries[0])).toBeUndefined();
+    expect(cache.stats()).toMatchObject({entries: 0, bytes: 0});
+  });
+
+  it('sizes plans by their serialized plan rather than their query string', () => {
+    const cache = createLruFroidCache({maxBytes: planBytes});
+    const query = `${queries[0]} # ${'x'.repeat(planBytes)}`;
+
+    cache.set(query, compileOperationPlan(parse(query)));
+
+    expect(cache.get(query)).toBeDefined();
+    expect(cache.stats()).toMatchObject({entries: 1, bytes: planBytes});
+  });
+
+  it('evicts plans older than ttlMs', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    const cache = createLruFroidCache({ttlMs: 100});
+
+    cache.set(queries[0], plans[0]);
+    now.mockReturnValue(1099);
+    expect(cache.get(queries[0])).toBe(plans[0]);
+
+    now.mockReturnValue(1100);
+    expect(cache.get(queries[0])).toBeUndefined();
+    expect(cache.stats()).toEqual({
+      hits: 1,
+      misses: 1,
+      evictions: 1,
+      entries: 0,
+      bytes: 0,
+    });
+  });
+
+  it('replaces the plan of a query that is set again', () => {
+    const cache = createLruFroidCache();
+
+    cache.set(queries[0], plans[0]);
+    cache.set(queries[0], plans[1]);
+
+    expect(cache.get(queries[0])).toBe(plans[1]);
+    expect(cache.stats()).toMatchObject({entries: 1, bytes: planBytes});
+  });
+
+  it('removes every plan when cleared', () => {
+    const cache = createLruFroidCache();
+
+    cache.set(queries[0], plans[0]);
+    cache.clear();
+
+    expect(cache.get(queries[0])).toBeUndefined();
+    expect(cache.stats()).toMatchObject({entries: 0, bytes: 0});
+  });
+
+  it.each([
+    [{maxEntries: 0}, 'Invalid maxEntries "0". It must be a positive integer.'],
+    [{maxBytes: 1.5}, 'Invalid maxBytes "1.5". It must be a positive integer.'],
+    [{ttlMs: -1}, 'Invalid ttlMs "-1". It must be a positive integer.'],
+  ])('throws when configured with %j', (options, expectedMessage) => {
+    expect(() => createLruFroidCache(options)).toThrow(expectedMessage);
+  });
+
+  it('can be used to cache the plans compiled by generateEntityObjectsById', async () => {
+    const cache = createLruFroidCache();
+    const query = gql`
+      query {
+        __typename
+      }
+    `;
+
+    await generateEntityObjectsById({query}, {cache});
+    const result = await generateEntityObjectsById({query}, {cache});
+
+    expect(result).toEqual({data: {__typename: 'Query'}});
+    expect(cache.stats()).toMatchObject({hits: 1, misses: 1, entries: 1});
+  });
+});
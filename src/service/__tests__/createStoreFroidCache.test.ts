@@ -0,0 +1,249 @@
+import {promises as fs} from 'fs';
+import os from 'os';
+import path from 'path';
+import {parse, print, SelectionSetNode} from 'graphql';
+import {toGlobalId} from 'graphql-relay';
+import {
+  createStoreFroidCache,
+  jsonPlanSerializer,
+} from '../createStoreFroidCache';
+import {
+  createFileFroidCacheStore,
+  createMemoryFroidCacheStore,
+} from '../froidCacheStores';
+import {generateEntityObjectsById} from '../generateEntityObjectsById';
+import {compileOperationPlan} from '../operationPlan';
+import {FroidCacheStore, FroidOperationPlan, FroidPlanField} from '../types';
+import {testGql as gql} from '../../__tests__/helpers';
+
+describe('createStoreFroidCache', () => {
+  const query = gql`
+    query GetNode($id: ID!) {
+      node(id: $id) {
+        ... on User {
+          name
+        }
+      }
+    }
+  `;
+
+  const plan = compileOperationPlan(parse(query));
+  const id = toGlobalId('Author', JSON.stringify({authorId: 1}));
+
+  it('serializes plans as JSON without the source locations of their AST nodes', () => {
+    const value = jsonPlanSerializer.serialize(plan);
+    const deserializedPlan = jsonPlanSerializer.deserialize(
+      value
+    ) as FroidOperationPlan;
+
+    expect(value).not.toContain('"loc"');
+    expect(jsonPlanSerializer.serialize(deserializedPlan)).toEqual(value);
+    expect(
+      print(
+        (deserializedPlan.operations[0].selections[0] as FroidPlanField)
+          .selectionSet as SelectionSetNode
+      )
+    ).toEqual(
+      print(
+        (plan.operations[0].selections[0] as FroidPlanField)
+          .selectionSet as SelectionSetNode
+      )
+    );
+  });
+
+  it.each([
+    [
+      'variables',
+      gql`
+        query GetNode($loc: ID = "${id}") {
+          node(id: $loc) {
+            id
+          }
+        }
+      `,
+    ],
+    [
+      'fragments',
+      gql`
+        query GetNode($id: ID = "${id}") {
+          ...loc
+        }
+
+        fragment loc on Query {
+          node(id: $id) {
+            id
+          }
+        }
+      `,
+    ],
+  ])('keeps %s named `loc` when serializing plans', async (_, locQuery) => {
+    const cache = createStoreFroidCache();
+
+    await generateEntityObjectsById({query: locQuery}, {cache});
+    const result = await generateEntityObjectsById({query: locQuery}, {cache});
+
+    expect(result).toEqual({
+      data: {node: {__typename: 'Author', id, authorId: 1}},
+    });
+  });
+
+  it('returns the plans stored in an in-process store by default', async () => {
+    const cache = createStoreFroidCache();
+
+    expect(await cache.get(query)).toBeUndefined();
+    await cache.set(query, plan);
+
+    expect(
+      jsonPlanSerializer.serialize(
+        (await cache.get(query)) as FroidOperationPlan
+      )
+    ).toEqual(jsonPlanSerializer.serialize(plan));
+  });
+
+  it('keys plans on a hash of their query string', async () => {
+    const store = createMemoryFroidCacheStore();
+    const set = jest.spyOn(store, 'set');
+    const cache = createStoreFroidCache({store});
+
+    await cache.set(query, plan);
+
+    expect(set).toHaveBeenCalledWith(
+      expect.stringMatching(/^[0-9a-f]{64}$/),
+      expect.any(String)
+    );
+  });
+
+  it('uses a custom serializer', async () => {
+    const serializer = {
+      serialize: jest.fn(() => 'serialized'),
+      deserialize: jest.fn(() => plan),
+    };
+    const cache = createStoreFroidCache({serializer});
+
+    await cache.set(query, plan);
+    await cache.get(query);
+
+    expect(serializer.serialize).toHaveBeenCalledTimes(1);
+    expect(serializer.deserialize).toHaveBeenCalledWith('serialized');
+  });
+
+  it('treats values that cannot be deserialized as misses', async () => {
+    const cache = createStoreFroidCache({
+      store: {get: () => 'not json', set: jest.fn()},
+    });
+
+    expect(await cache.get(query)).toBeUndefined();
+  });
+
+  it('evicts the least recently used plans from an in-process store', async () => {
+    const store = createMemoryFroidCacheStore({maxEntries: 2, maxBytes: 10});
+
+    store.set('a', 'aaa');
+    store.set('b', 'bbb');
+    store.get('a');
+    store.set('c', 'ccc');
+
+    expect(store.get('a')).toEqual('aaa');
+    expect(store.get('b')).toBeUndefined();
+    expect(store.get('c')).toEqual('ccc');
+
+    store.set('d', 'dddddddd');
+
+    expect(store.get('a')).toBeUndefined();
+    expect(store.get('c')).toBeUndefined();
+    expect(store.get('d')).toEqual('dddddddd');
+
+    store.set('e', 'eeeeeeeeeee');
+
+    expect(store.get('d')).toEqual('dddddddd');
+    expect(store.get('e')).toBeUndefined();
+  });
+
+  it('shares plans through a file-backed store', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'froid-cache-'));
+
+    try {
+      const storeDirectory = path.join(directory, 'documents');
+      await createStoreFroidCache({
+        store: createFileFroidCacheStore({directory: storeDirectory}),
+      }).set(query, plan);
+
+      const cache = createStoreFroidCache({
+        store: createFileFroidCacheStore({directory: storeDirectory}),
+      });
+
+      expect(await fs.readdir(storeDirectory)).toEqual([
+        expect.stringMatching(/^[0-9a-f]{64}\.json$/),
+      ]);
+      expect(
+        jsonPlanSerializer.serialize(
+          (await cache.get(query)) as FroidOperationPlan
+        )
+      ).toEqual(jsonPlanSerializer.serialize(plan));
+      expect(await cache.get('{ other }')).toBeUndefined();
+    } finally {
+      await fs.rm(directory, {recursive: true, force: true});
+    }
+  });
+
+  it('stores the same plan concurrently in a file-backed store', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'froid-cache-'));
+
+    try {
+      const cache = createStoreFroidCache({
+        store: createFileFroidCacheStore({directory}),
+      });
+
+      await Promise.all([cache.set(query, plan), cache.set(query, plan)]);
+
+      expect(await fs.readdir(directory)).toEqual([
+        expect.stringMatching(/^[0-9a-f]{64}\.json$/),
+      ]);
+    } finally {
+      await fs.rm(directory, {recursive: true, force: true});
+    }
+  });
+
+  it('can be used to cache the plans compiled by generateEntityObjectsById', async () => {
+    const store = createMemoryFroidCacheStore();
+    const get = jest.spyOn(store, 'get');
+    const cache = createStoreFroidCache({store});
+    const typenameQuery = gql`
+      query {
+        __typename
+      }
+    `;
+
+    await generateEntityObjectsById({query: typenameQuery}, {cache});
+    const result = await generateEntityObjectsById(
+      {query: typenameQuery},
+      {cache}
+    );
+
+    expect(result).toEqual({data: {__typename: 'Query'}});
+    expect(get).toHaveReturnedWith(expect.any(String));
+  });
+
+  it('treats a failing store as a miss in generateEntityObjectsById', async () => {
+    const store: FroidCacheStore = {
+      get: async () => {
+        throw new Error('Store unavailable');
+      },
+      set: async () => {
+        throw new Error('Store unavailable');
+      },
+    };
+    const typenameQuery = gql`
+      query {
+        __typename
+      }
+    `;
+
+    const result = await generateEntityObjectsById(
+      {query: typenameQuery},
+      {cache: createStoreFroidCache({store})}
+    );
+
+    expect(result).toEqual({data: {__typename: 'Query'}});
+  });
+});
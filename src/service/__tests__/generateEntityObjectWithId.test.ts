@@ -1,5 +1,5 @@
 import {generateEntityObjectWithId} from '../generateEntityObjectWithId';
-import {fromGlobalId} from 'graphql-relay';
+import {fromGlobalId, toGlobalId} from 'graphql-relay';
 
 describe('generateEntityObjectWithId', () => {
   it('returns an empty array when handed an empty array', async () => {
@@ -60,6 +60,45 @@ describe('generateEntityObjectWithId', () => {
 
     const result = await generateEntityObjectWithId({representations});
 
+    const id1 = fromGlobalId(result.data._entities[0].id);
+    expect(id1).toEqual({
+      id: '{"a":{"a":"1","b":{"a":"1","b":"2","c":"3"},"c":"3"},"b":"2","c":"3","d":[{"a":"1","b":"2","c":"3"},{"a":"1","b":"2","c":"3"}]}',
+      type: 'Sorted',
+    });
+  });
+
+  it('serializes null key values and numbers canonically', async () => {
+    const representations = [
+      {__typename: 'Product', upc: null, price: 1e21, weight: 1.0, size: -0},
+    ];
+
+    const result = await generateEntityObjectWithId({representations});
+
+    expect(fromGlobalId(result.data._entities[0].id)).toEqual({
+      id: '{"price":1e+21,"size":0,"upc":null,"weight":1}',
+      type: 'Product',
+    });
+  });
+
+  it('keeps the legacy serialization of key values when configured', async () => {
+    const representations = [
+      {
+        __typename: 'Sorted',
+        c: '3',
+        b: '2',
+        d: [
+          {c: '3', a: '1', b: '2'},
+          {a: '1', c: '3', b: '2'},
+        ],
+        a: {c: '3', a: '1', b: {b: '2', a: '1', c: '3'}},
+      },
+    ];
+
+    const result = await generateEntityObjectWithId(
+      {representations},
+      {legacyKeySerialization: true}
+    );
+
     expect(result).toEqual({
       data: {
         _entities: [
@@ -104,4 +143,218 @@ describe('generateEntityObjectWithId', () => {
       type: 'Author',
     });
   });
+
+  it('awaits asynchronous encoding for all representations concurrently', async () => {
+    const representations = [
+      {__typename: 'Author', firstName: 'John'},
+      {__typename: 'Author', firstName: 'Jane'},
+    ];
+    const encoded: string[] = [];
+    const encode = (value: string) =>
+      new Promise<string>((resolve) =>
+        setTimeout(
+          () => {
+            encoded.push(value);
+            resolve(`abc${value}abc`);
+          },
+          value.includes('John') ? 20 : 0
+        )
+      );
+
+    const result = await generateEntityObjectWithId(
+      {representations},
+      {encode}
+    );
+
+    expect(encoded).toEqual(['{"firstName":"Jane"}', '{"firstName":"John"}']);
+    expect(
+      result.data._entities.map((entity) => fromGlobalId(entity.id).id)
+    ).toEqual(['abc{"firstName":"John"}abc', 'abc{"firstName":"Jane"}abc']);
+  });
+
+  it('returns an error for each representation that is not encoded before the timeout', async () => {
+    const representations = [
+      {__typename: 'Author', firstName: 'John'},
+      {__typename: 'Author', firstName: 'Jane'},
+    ];
+    const encode = (value: string) =>
+      value.includes('John') ? new Promise<string>(() => undefined) : value;
+
+    const result = await generateEntityObjectWithId(
+      {representations},
+      {encode, timeout: 10}
+    );
+
+    expect(result).toEqual({
+      data: {
+        _entities: [
+          null,
+          {
+            __typename: 'Author',
+            id: toGlobalId('Author', '{"firstName":"Jane"}'),
+          },
+        ],
+      },
+      errors: [
+        {
+          message: 'The request timed out after 10ms',
+          path: ['_entities', 0],
+          extensions: {code: 'REQUEST_TIMEOUT'},
+        },
+      ],
+    });
+  });
+
+  it('returns an error with the code of the failure for each representation that is not encoded', async () => {
+    const representations = [{__typename: 'Author', firstName: 'John'}];
+    const encode = () => {
+      throw new Error('Unable to reach the key management service');
+    };
+
+    const result = await generateEntityObjectWithId(
+      {representations},
+      {encode}
+    );
+
+    expect(result).toEqual({
+      data: {_entities: [null]},
+      errors: [
+        {
+          message: 'Unable to reach the key management service',
+          path: ['_entities', 0],
+          extensions: {code: 'ENCODE_FAILED'},
+        },
+      ],
+    });
+  });
+
+  it('returns errors in the legacy format when configured', async () => {
+    const representations = [{__typename: 'Author', firstName: 'John'}];
+    const encode = () => {
+      throw new Error('Unable to reach the key management service');
+    };
+
+    const result = await generateEntityObjectWithId(
+      {representations},
+      {encode, legacyErrorFormat: true}
+    );
+
+    expect(result.errors).toEqual([
+      {
+        message: 'Unable to reach the key management service',
+        path: ['_entities', 0],
+      },
+    ]);
+  });
+
+  it('rejects batches with more representations than allowed', async () => {
+    const encode = jest.fn((value: string) => value);
+    const representations = [
+      {__typename: 'Author', firstName: 'John'},
+      {__typename: 'Author', firstName: 'Jane'},
+    ];
+
+    const result = await generateEntityObjectWithId(
+      {representations},
+      {encode, limits: {maxRepresentations: 1}}
+    );
+
+    expect(encode).not.toHaveBeenCalled();
+    expect(result).toEqual({
+      data: null,
+      errors: [
+        {
+          message:
+            'The batch contains 2 representations, which exceeds the limit of 1',
+          extensions: {code: 'LIMIT_EXCEEDED'},
+        },
+      ],
+    });
+  });
+
+  describe('when representations are normalized', () => {
+    const manifest = {
+      nodes: [{typename: 'Book', key: 'author { __typename authorId } isbn'}],
+    };
+
+    it('generates the same id regardless of the extra fields of a representation', async () => {
+      const representations = [
+        {
+          __typename: 'Book',
+          isbn: '123',
+          author: {__typename: 'Author', authorId: 1},
+        },
+        {
+          __typename: 'Book',
+          isbn: '123',
+          title: 'Dune',
+          author: {__typename: 'Author', authorId: 1, name: 'Frank'},
+        },
+      ];
+
+      const result = await generateEntityObjectWithId(
+        {representations},
+        {manifest, normalizeRepresentations: true}
+      );
+
+      const id = toGlobalId(
+        'Book',
+        '{"author":{"__typename":"Author","authorId":1},"isbn":"123"}'
+      );
+      expect(result).toEqual({
+        data: {
+          _entities: [
+            {__typename: 'Book', id},
+            {__typename: 'Book', id},
+          ],
+        },
+      });
+    });
+
+    it('returns an error for each representation missing a field of the selected key', async () => {
+      const representations = [
+        {__typename: 'Book', isbn: '123', sku: 'abc'},
+        {__typename: 'Book', isbn: '123', author: {__typename: 'Author'}},
+        {__typename: 'Author', authorId: 1},
+      ];
+
+      const result = await generateEntityObjectWithId(
+        {representations},
+        {manifest, normalizeRepresentations: true}
+      );
+
+      expect(result).toEqual({
+        data: {_entities: [null, null, null]},
+        errors: [
+          {
+            message: 'Invalid key for type "Book": missing field "author"',
+            path: ['_entities', 0],
+            extensions: {code: 'INVALID_ID_KEY'},
+          },
+          {
+            message:
+              'Invalid key for type "Book": missing field "author.authorId"',
+            path: ['_entities', 1],
+            extensions: {code: 'INVALID_ID_KEY'},
+          },
+          {
+            message: 'Invalid id type "Author"',
+            path: ['_entities', 2],
+            extensions: {code: 'INVALID_ID_TYPE'},
+          },
+        ],
+      });
+    });
+
+    it('throws when no manifest is provided', async () => {
+      await expect(
+        generateEntityObjectWithId(
+          {representations: []},
+          {normalizeRepresentations: true}
+        )
+      ).rejects.toThrow(
+        'A manifest must be provided to normalize entity representations.'
+      );
+    });
+  });
 });
@@ -1,13 +1,18 @@
 import {generateEntityObjectsById} from '../generateEntityObjectsById';
-import {testGql as gql} from '../../__tests__/helpers';
+import {
+  createTestAbortController,
+  redactTestId,
+  testGql as gql,
+} from '../../__tests__/helpers';
 import {toGlobalId} from 'graphql-relay';
-import {parse} from 'graphql';
+import {parse, print} from 'graphql';
 
 jest.mock('graphql', () => {
   const original = jest.requireActual('graphql');
   return {
     ...original,
-    parse: jest.fn((value) => original.parse(value)),
+    parse: jest.fn((value, options) => original.parse(value, options)),
+    print: jest.fn((value) => original.print(value)),
   };
 });
 
@@ -192,37 +197,1292 @@ describe('generateEntityObjectsById', () => {
     expect(parse).toHaveBeenCalledTimes(1);
   });
 
+  describe('when the schema is configured as a document', () => {
+    const sdl = gql`
+      type Query {
+        node(id: ID!): Node
+      }
+
+      interface Node {
+        id: ID!
+      }
+    `;
+
+    it('only prints the schema once it is requested', async () => {
+      const options = {sdl: parse(sdl)};
+      const id = toGlobalId('Author', JSON.stringify({authorId: 1}));
+      const nodeQuery = gql`
+        query GetNode($id: ID!) {
+          node(id: $id) {
+            id
+          }
+        }
+      `;
+      const serviceQuery = gql`
+        query {
+          _service {
+            sdl
+          }
+        }
+      `;
+
+      await generateEntityObjectsById(
+        {query: nodeQuery, variables: {id}},
+        options
+      );
+      expect(print).not.toHaveBeenCalled();
+
+      await generateEntityObjectsById({query: serviceQuery}, options);
+      const result = await generateEntityObjectsById(
+        {query: serviceQuery},
+        options
+      );
+
+      expect(result).toEqual({
+        data: {
+          _service: {sdl: jest.requireActual('graphql').print(parse(sdl))},
+        },
+      });
+      expect(print).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('when interpolated arguments are used', () => {
     it('returns an entity object with the `id` + entity keys present', async () => {
       const authorEntityKey = {firstName: 'John', lastName: 'Doe'};
       const id = toGlobalId('Author', JSON.stringify(authorEntityKey));
 
-      const result = await generateEntityObjectsById({
-        query: gql`
-        query {
-          node(id: "${id}") {
-            ... on Author {
-              id
-              firstName
-              lastName
-              fullName
-            }
+      const result = await generateEntityObjectsById({
+        query: gql`
+        query {
+          node(id: "${id}") {
+            ... on Author {
+              id
+              firstName
+              lastName
+              fullName
+            }
+          }
+        }
+      `,
+      });
+
+      expect(result).toEqual({
+        data: {
+          node: {
+            __typename: 'Author',
+            id,
+            firstName: 'John',
+            lastName: 'Doe',
+          },
+        },
+      });
+    });
+  });
+
+  describe('when root fields are selected through fragments', () => {
+    it('ignores nested `node` fields', async () => {
+      const id = toGlobalId(
+        'Author',
+        JSON.stringify({firstName: 'John', lastName: 'Doe'})
+      );
+
+      const result = await generateEntityObjectsById({
+        query: gql`
+          query GetAuthor($id: ID!) {
+            node(id: $id) {
+              ... on Author {
+                id
+                books {
+                  edges {
+                    node {
+                      id
+                    }
+                  }
+                }
+              }
+            }
+          }
+        `,
+        variables: {id},
+      });
+
+      expect(result).toEqual({
+        data: {
+          node: {__typename: 'Author', id, firstName: 'John', lastName: 'Doe'},
+        },
+      });
+    });
+
+    it('finds `node` fields in inline and named fragments', async () => {
+      const id = toGlobalId(
+        'Author',
+        JSON.stringify({firstName: 'John', lastName: 'Doe'})
+      );
+      const id2 = toGlobalId(
+        'Author',
+        JSON.stringify({firstName: 'Jane', lastName: 'Doe'})
+      );
+
+      const result = await generateEntityObjectsById({
+        query: gql`
+          query GetAuthors($id: ID!, $id2: ID!) {
+            ... on Query {
+              first: node(id: $id) {
+                id
+              }
+            }
+            ...SecondAuthor
+          }
+
+          fragment SecondAuthor on Query {
+            second: node(id: $id2) {
+              id
+            }
+          }
+        `,
+        variables: {id, id2},
+      });
+
+      expect(result).toEqual({
+        data: {
+          first: {__typename: 'Author', id, firstName: 'John', lastName: 'Doe'},
+          second: {
+            __typename: 'Author',
+            id: id2,
+            firstName: 'Jane',
+            lastName: 'Doe',
+          },
+        },
+      });
+    });
+
+    it('resolves the root `__typename` field', async () => {
+      const result = await generateEntityObjectsById({
+        query: gql`
+          query {
+            __typename
+          }
+        `,
+      });
+
+      expect(result).toEqual({data: {__typename: 'Query'}});
+    });
+
+    it('returns an error when an unsupported root field is requested', async () => {
+      const query = gql`
+        query {
+          topProducts {
+            upc
+          }
+        }
+      `;
+
+      const result = await generateEntityObjectsById({query});
+
+      expect(result).toEqual({
+        data: {topProducts: null},
+        errors: [
+          {
+            message: 'Cannot query field "topProducts" on type "Query".',
+            path: ['topProducts'],
+            extensions: {code: 'QUERY_VALIDATION_ERROR'},
+          },
+        ],
+      });
+    });
+  });
+
+  describe('when variable default values are used', () => {
+    const id = toGlobalId(
+      'Author',
+      JSON.stringify({firstName: 'John', lastName: 'Doe'})
+    );
+
+    it('uses the default value when no runtime value is provided', async () => {
+      const result = await generateEntityObjectsById({
+        query: gql`
+          query GetAuthor($id: ID! = "${id}", $ids: [ID!]! = ["${id}"]) {
+            node(id: $id) {
+              id
+            }
+            nodes(ids: $ids) {
+              id
+            }
+          }
+        `,
+      });
+
+      const author = {
+        __typename: 'Author',
+        id,
+        firstName: 'John',
+        lastName: 'Doe',
+      };
+      expect(result).toEqual({data: {node: author, nodes: [author]}});
+    });
+
+    it('prefers an explicitly provided runtime value', async () => {
+      const id2 = toGlobalId(
+        'Author',
+        JSON.stringify({firstName: 'Jane', lastName: 'Doe'})
+      );
+
+      const result = await generateEntityObjectsById({
+        query: gql`
+          query GetAuthor($id: ID = "${id}") {
+            node(id: $id) {
+              id
+            }
+          }
+        `,
+        variables: {id: id2},
+      });
+
+      expect(result).toEqual({
+        data: {
+          node: {
+            __typename: 'Author',
+            id: id2,
+            firstName: 'Jane',
+            lastName: 'Doe',
+          },
+        },
+      });
+    });
+  });
+
+  describe('when @skip and @include directives are used', () => {
+    const id = toGlobalId(
+      'Author',
+      JSON.stringify({firstName: 'John', lastName: 'Doe'})
+    );
+    const author = {
+      __typename: 'Author',
+      id,
+      firstName: 'John',
+      lastName: 'Doe',
+    };
+
+    it('honors directives on `node` fields', async () => {
+      const result = await generateEntityObjectsById({
+        query: gql`
+          query GetAuthor($id: ID!, $hydrate: Boolean!) {
+            included: node(id: $id) @include(if: $hydrate) {
+              id
+            }
+            skipped: node(id: $id) @skip(if: $hydrate) {
+              id
+            }
+            literal: node(id: $id) @include(if: false) {
+              id
+            }
+          }
+        `,
+        variables: {id, hydrate: true},
+      });
+
+      expect(result).toEqual({data: {included: author}});
+    });
+
+    it('honors directives on fragments containing `node` fields', async () => {
+      const result = await generateEntityObjectsById({
+        query: gql`
+          query GetAuthor($id: ID!, $hydrate: Boolean!) {
+            ... @include(if: $hydrate) {
+              inline: node(id: $id) {
+                id
+              }
+            }
+            ...Author @skip(if: $hydrate)
+          }
+
+          fragment Author on Query {
+            spread: node(id: $id) {
+              id
+            }
+          }
+        `,
+        variables: {id, hydrate: false},
+      });
+
+      expect(result).toEqual({data: {spread: author}});
+    });
+
+    it('uses variable default values', async () => {
+      const result = await generateEntityObjectsById({
+        query: gql`
+          query GetAuthor($id: ID!, $hydrate: Boolean = false) {
+            node(id: $id) @include(if: $hydrate) {
+              id
+            }
+          }
+        `,
+        variables: {id},
+      });
+
+      expect(result).toEqual({data: {}});
+    });
+
+    it('returns an error when a required directive variable is missing', async () => {
+      const query = gql`
+        query GetAuthor($id: ID!, $hydrate: Boolean!) {
+          node(id: $id) @include(if: $hydrate) {
+            id
+          }
+        }
+      `;
+
+      const result = await generateEntityObjectsById({
+        query,
+        variables: {id},
+      });
+
+      expect(result).toEqual({
+        data: null,
+        errors: [
+          {
+            message:
+              'Argument "if" of required type "Boolean!" was provided the variable "$hydrate" which was not provided a runtime value.',
+            locations: [{line: 3, column: 38}],
+            extensions: {code: 'QUERY_VALIDATION_ERROR'},
+          },
+        ],
+      });
+    });
+  });
+
+  describe('when the document contains multiple operations', () => {
+    const query = gql`
+      query GetAuthor($id: ID!) {
+        author: node(id: $id) {
+          id
+        }
+      }
+
+      query GetBook($id: ID!) {
+        book: node(id: $id) {
+          id
+        }
+      }
+    `;
+    const id = toGlobalId(
+      'Author',
+      JSON.stringify({firstName: 'John', lastName: 'Doe'})
+    );
+
+    it('only executes the named operation', async () => {
+      const result = await generateEntityObjectsById({
+        query,
+        operationName: 'GetBook',
+        variables: {id},
+      });
+
+      expect(result).toEqual({
+        data: {
+          book: {__typename: 'Author', id, firstName: 'John', lastName: 'Doe'},
+        },
+      });
+    });
+
+    it('returns an error when the operation name is missing', async () => {
+      const result = await generateEntityObjectsById({
+        query,
+        variables: {id},
+      });
+
+      expect(result).toEqual({
+        data: null,
+        errors: [
+          {
+            message:
+              'Must provide operation name if query contains multiple operations.',
+            extensions: {code: 'QUERY_VALIDATION_ERROR'},
+          },
+        ],
+      });
+    });
+
+    it('returns an error when the named operation does not exist', async () => {
+      const result = await generateEntityObjectsById({
+        query,
+        operationName: 'GetPublisher',
+        variables: {id},
+      });
+
+      expect(result).toEqual({
+        data: null,
+        errors: [
+          {
+            message: 'Unknown operation named "GetPublisher".',
+            extensions: {code: 'QUERY_VALIDATION_ERROR'},
+          },
+        ],
+      });
+    });
+
+    it('returns an error when the operation is not a query', async () => {
+      const mutation = gql`
+        mutation DeleteAuthor($id: ID!) {
+          deleteNode(id: $id)
+        }
+      `;
+
+      const result = await generateEntityObjectsById({
+        query: mutation,
+        variables: {id},
+      });
+
+      expect(result).toEqual({
+        data: null,
+        errors: [
+          {
+            message: 'Schema is not configured to execute mutation operation.',
+            extensions: {code: 'QUERY_VALIDATION_ERROR'},
+          },
+        ],
+      });
+    });
+  });
+
+  describe('when the `nodes` field is used', () => {
+    it('returns a list of entity objects with the `id` + entity keys present', async () => {
+      const id = toGlobalId(
+        'Author',
+        JSON.stringify({firstName: 'John', lastName: 'Doe'})
+      );
+      const id2 = toGlobalId(
+        'Author',
+        JSON.stringify({firstName: 'Jane', lastName: 'Doe'})
+      );
+
+      const result = await generateEntityObjectsById({
+        query: gql`
+          query GetAuthors($ids: [ID!]!) {
+            authors: nodes(ids: $ids) {
+              ... on Author {
+                id
+                firstName
+                lastName
+              }
+            }
+          }
+        `,
+        variables: {ids: [id, id2]},
+      });
+
+      expect(result).toEqual({
+        data: {
+          authors: [
+            {__typename: 'Author', id, firstName: 'John', lastName: 'Doe'},
+            {__typename: 'Author', id: id2, firstName: 'Jane', lastName: 'Doe'},
+          ],
+        },
+      });
+    });
+
+    it('supports interpolated list arguments', async () => {
+      const id = toGlobalId(
+        'Author',
+        JSON.stringify({firstName: 'John', lastName: 'Doe'})
+      );
+
+      const result = await generateEntityObjectsById({
+        query: gql`
+          query {
+            nodes(ids: ["${id}"]) {
+              id
+            }
+          }
+        `,
+      });
+
+      expect(result).toEqual({
+        data: {
+          nodes: [
+            {__typename: 'Author', id, firstName: 'John', lastName: 'Doe'},
+          ],
+        },
+      });
+    });
+
+    it('returns partial results with an error for each invalid id', async () => {
+      const query = gql`
+        query GetAuthors($ids: [ID!]!) {
+          nodes(ids: $ids) {
+            id
+          }
+        }
+      `;
+      const id = toGlobalId(
+        'Author',
+        JSON.stringify({firstName: 'John', lastName: 'Doe'})
+      );
+
+      const result = await generateEntityObjectsById({
+        query,
+        variables: {ids: ['invalid id', id, '']},
+      });
+
+      expect(result).toEqual({
+        data: {
+          nodes: [
+            null,
+            {__typename: 'Author', id, firstName: 'John', lastName: 'Doe'},
+            null,
+          ],
+        },
+        errors: [
+          {
+            message: 'Unexpected end of JSON input',
+            path: ['nodes', 0],
+            extensions: {
+              code: 'INVALID_ID_FORMAT',
+            },
+          },
+          {
+            message: 'Unable to parse id from operation',
+            path: ['nodes', 2],
+            extensions: {code: 'MISSING_ID'},
+          },
+        ],
+      });
+    });
+
+    it('returns a null value for the list when the ids are missing', async () => {
+      const query = gql`
+        query GetAuthors($ids: [ID!]!) {
+          nodes(ids: $ids) {
+            id
+          }
+        }
+      `;
+
+      const result = await generateEntityObjectsById({query});
+
+      expect(result).toEqual({
+        data: {nodes: null},
+        errors: [
+          {
+            message: 'Unable to parse ids from operation',
+            path: ['nodes'],
+            extensions: {code: 'MISSING_ID'},
+          },
+        ],
+      });
+    });
+  });
+
+  describe('when responses are shaped to the selection', () => {
+    it('only returns the selected fields', async () => {
+      const id = toGlobalId(
+        'Author',
+        JSON.stringify({firstName: 'John', lastName: 'Doe', ssn: '123'})
+      );
+
+      const result = await generateEntityObjectsById(
+        {
+          query: gql`
+            query GetAuthor($id: ID!) {
+              node(id: $id) {
+                type: __typename
+                ... on Author {
+                  authorId: id
+                  firstName
+                  fullName
+                }
+                ...LastName
+              }
+            }
+
+            fragment LastName on Author {
+              lastName
+            }
+          `,
+          variables: {id},
+        },
+        {shapeToSelection: true}
+      );
+
+      expect(result).toEqual({
+        data: {
+          node: {
+            type: 'Author',
+            authorId: id,
+            firstName: 'John',
+            lastName: 'Doe',
+          },
+        },
+      });
+    });
+
+    it('shapes nested key fields and ignores fragments on other types', async () => {
+      const id = toGlobalId(
+        'Book',
+        JSON.stringify({
+          author: {__typename: 'Author', authorId: 1, ssn: '123'},
+          isbn: '0-0000-0000-0',
+        })
+      );
+
+      const result = await generateEntityObjectsById(
+        {
+          query: gql`
+            query GetBooks($ids: [ID!]!) {
+              nodes(ids: $ids) {
+                __typename
+                ... on Book {
+                  isbn
+                  author {
+                    __typename
+                    authorId
+                  }
+                }
+                ... on Magazine {
+                  issn
+                }
+              }
+            }
+          `,
+          variables: {ids: [id]},
+        },
+        {shapeToSelection: true}
+      );
+
+      expect(result).toEqual({
+        data: {
+          nodes: [
+            {
+              __typename: 'Book',
+              isbn: '0-0000-0000-0',
+              author: {__typename: 'Author', authorId: 1},
+            },
+          ],
+        },
+      });
+    });
+  });
+
+  describe('when a manifest is configured', () => {
+    const manifest = {nodes: [{typename: 'Author'}]};
+    const query = gql`
+      query GetNodes($ids: [ID!]!) {
+        nodes(ids: $ids) {
+          id
+        }
+      }
+    `;
+
+    it('resolves ids for the node types of the manifest', async () => {
+      const id = toGlobalId('Author', JSON.stringify({authorId: 1}));
+
+      const result = await generateEntityObjectsById(
+        {query, variables: {ids: [id]}},
+        {manifest}
+      );
+
+      expect(result).toEqual({
+        data: {nodes: [{__typename: 'Author', id, authorId: 1}]},
+      });
+    });
+
+    it('returns an error for ids of types that are not in the manifest', async () => {
+      const decode = jest.fn((value: string) => value);
+      const authorId = toGlobalId('Author', JSON.stringify({authorId: 1}));
+      const userId = toGlobalId('User', JSON.stringify({userId: 1}));
+
+      const result = await generateEntityObjectsById(
+        {query, variables: {ids: [authorId, userId]}},
+        {decode, manifest}
+      );
+
+      expect(decode).toHaveBeenCalledTimes(1);
+      expect(result).toEqual({
+        data: {
+          nodes: [{__typename: 'Author', id: authorId, authorId: 1}, null],
+        },
+        errors: [
+          {
+            message: 'Invalid id type "User"',
+            path: ['nodes', 1],
+            extensions: {code: 'INVALID_ID_TYPE'},
+          },
+        ],
+      });
+    });
+
+    it('returns an UNKNOWN_TYPE error for ids whose type name cannot name a type', async () => {
+      const decode = jest.fn((value: string) => value);
+      const id = toGlobalId('Not a type', JSON.stringify({authorId: 1}));
+
+      const result = await generateEntityObjectsById(
+        {query, variables: {ids: [id]}},
+        {decode, manifest}
+      );
+
+      expect(decode).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        data: {nodes: [null]},
+        errors: [
+          {
+            message: 'Unable to resolve the type of the id',
+            path: ['nodes', 0],
+            extensions: {code: 'UNKNOWN_TYPE'},
+          },
+        ],
+      });
+    });
+  });
+
+  describe('when a manifest with keys is configured', () => {
+    const manifest = {
+      nodes: [{typename: 'Book', key: 'author { __typename authorId } isbn'}],
+    };
+    const query = gql`
+      query GetNode($id: ID!) {
+        node(id: $id) {
+          id
+        }
+      }
+    `;
+    const resolveKeys = (keys: unknown, strictKeyValidation?: boolean) => {
+      const id = toGlobalId('Book', JSON.stringify(keys));
+      return generateEntityObjectsById(
+        {query, variables: {id}},
+        {manifest, strictKeyValidation}
+      ).then((result) => ({id, result}));
+    };
+
+    it('resolves ids whose key values match the selected key', async () => {
+      const keys = {
+        author: {__typename: 'Author', authorId: 1},
+        isbn: '123',
+      };
+
+      const {id, result} = await resolveKeys(keys);
+
+      expect(result).toEqual({
+        data: {node: {__typename: 'Book', id, ...keys}},
+      });
+    });
+
+    it('resolves ids whose key values have extra fields', async () => {
+      const keys = {
+        author: {authorId: 1, name: 'Frank'},
+        isbn: '123',
+        title: 'Dune',
+      };
+
+      const {id, result} = await resolveKeys(keys);
+
+      expect(result).toEqual({
+        data: {node: {__typename: 'Book', id, ...keys}},
+      });
+    });
+
+    it.each([
+      [
+        {author: {authorId: 1}, isbn: '123', title: 'Dune'},
+        'unexpected field "title"',
+      ],
+      [
+        {author: {authorId: 1, name: 'Frank'}, isbn: '123'},
+        'unexpected field "author.name"',
+      ],
+    ])(
+      'returns an error for key values %j with strict key validation',
+      async (keys, expectedMessage) => {
+        const {result} = await resolveKeys(keys, true);
+
+        expect(result).toEqual({
+          data: {node: null},
+          errors: [
+            {
+              message: `Invalid key for type "Book": ${expectedMessage}`,
+              path: ['node'],
+              extensions: {code: 'INVALID_ID_KEY'},
+            },
+          ],
+        });
+      }
+    );
+
+    it.each([
+      [{isbn: '123'}, 'missing field "author"'],
+      [{author: {}, isbn: '123'}, 'missing field "author.authorId"'],
+      [{author: 1, isbn: '123'}, 'expected field "author" to be an object'],
+      [
+        {author: {authorId: 1}, isbn: ['123']},
+        'expected field "isbn" to be a scalar value',
+      ],
+    ])('returns an error for key values %j', async (keys, expectedMessage) => {
+      const {result} = await resolveKeys(keys);
+
+      expect(result).toEqual({
+        data: {node: null},
+        errors: [
+          {
+            message: `Invalid key for type "Book": ${expectedMessage}`,
+            path: ['node'],
+            extensions: {code: 'INVALID_ID_KEY'},
+          },
+        ],
+      });
+    });
+  });
+
+  describe('when a manifest with typed key fields is configured', () => {
+    const manifest = {
+      nodes: [
+        {
+          typename: 'Product',
+          key: 'upc sizes price',
+          keyFields: [
+            {name: 'price', type: 'Float'},
+            {name: 'sizes', type: '[Int!]!'},
+            {name: 'upc', type: 'ID!'},
+          ],
+        },
+      ],
+    };
+    const query = gql`
+      query GetNode($id: ID!) {
+        node(id: $id) {
+          id
+        }
+      }
+    `;
+    const resolveKeys = (keys: unknown) => {
+      const id = toGlobalId('Product', JSON.stringify(keys));
+      return generateEntityObjectsById(
+        {query, variables: {id}},
+        {manifest}
+      ).then((result) => ({id, result}));
+    };
+
+    it.each([
+      {upc: '123', sizes: [1, 2], price: 9.99},
+      {upc: 123, sizes: [], price: null},
+    ])(
+      'resolves ids whose key values match the key field types %j',
+      async (keys) => {
+        const {id, result} = await resolveKeys(keys);
+
+        expect(result).toEqual({
+          data: {node: {__typename: 'Product', id, ...keys}},
+        });
+      }
+    );
+
+    it.each([
+      [
+        {upc: null, sizes: [1], price: 1},
+        'expected field "upc" to be of type "ID!"',
+      ],
+      [
+        {upc: true, sizes: [1], price: 1},
+        'expected field "upc" to be of type "ID!"',
+      ],
+      [
+        {upc: '123', sizes: 1, price: 1},
+        'expected field "sizes" to be of type "[Int!]!"',
+      ],
+      [
+        {upc: '123', sizes: [1.5], price: 1},
+        'expected field "sizes" to be of type "[Int!]!"',
+      ],
+      [
+        {upc: '123', sizes: [1], price: '1'},
+        'expected field "price" to be of type "Float"',
+      ],
+    ])('returns an error for key values %j', async (keys, expectedMessage) => {
+      const {result} = await resolveKeys(keys);
+
+      expect(result).toEqual({
+        data: {node: null},
+        errors: [
+          {
+            message: `Invalid key for type "Product": ${expectedMessage}`,
+            path: ['node'],
+            extensions: {code: 'INVALID_ID_KEY'},
+          },
+        ],
+      });
+    });
+  });
+
+  describe('when the legacy error format is used', () => {
+    it('echoes the query and id back with each error', async () => {
+      const query = gql`
+        query GetAuthors($id: ID!, $ids: [ID!]!) {
+          node(id: $id) {
+            id
+          }
+          nodes(ids: $ids) {
+            id
+          }
+          topProducts {
+            upc
           }
         }
-      `,
+      `;
+      const signedId = toGlobalId('Author', '{"authorId":1}.signature');
+
+      const result = await generateEntityObjectsById(
+        {query, variables: {id: '', ids: [signedId]}},
+        {signing: {secret: 'secret'}, legacyErrorFormat: true, debug: true}
+      );
+
+      expect(result).toEqual({
+        data: {node: null, nodes: [null], topProducts: null},
+        errors: [
+          {message: 'Unable to parse id from operation', query, id: ''},
+          {
+            message: 'Invalid id signature',
+            query,
+            id: signedId,
+            path: ['nodes', 0],
+            extensions: {code: 'INVALID_ID_SIGNATURE'},
+          },
+          {message: 'Cannot query field "topProducts" on type "Query".', query},
+        ],
       });
+    });
+
+    it("returns an error when the query can't be parsed", async () => {
+      const query = 'query {';
+
+      const result = await generateEntityObjectsById(
+        {query},
+        {legacyErrorFormat: true, debug: true}
+      );
 
       expect(result).toEqual({
-        data: {
-          node: {
-            __typename: 'Author',
-            id,
-            firstName: 'John',
-            lastName: 'Doe',
+        data: null,
+        errors: [{message: 'Syntax Error: Expected Name, found <EOF>.', query}],
+      });
+    });
+  });
+
+  describe('when errors are redacted', () => {
+    const query = gql`
+      query GetAuthor($id: ID!) {
+        node(id: $id) {
+          id
+        }
+      }
+    `;
+    const id = 'an invalid id';
+
+    it('omits the query and id by default', async () => {
+      const result = await generateEntityObjectsById({query, variables: {id}});
+
+      expect(result.errors).toEqual([
+        {
+          message: 'Unexpected end of JSON input',
+          path: ['node'],
+          extensions: {code: 'INVALID_ID_FORMAT'},
+        },
+      ]);
+    });
+
+    it('hashes the id with the configured secret', async () => {
+      const hashSecret = 'a secret';
+      const result = await generateEntityObjectsById(
+        {query, variables: {id}},
+        {errorRedaction: {id: 'hash', hashSecret}}
+      );
+
+      expect(result.errors).toEqual([
+        {
+          message: 'Unexpected end of JSON input',
+          path: ['node'],
+          extensions: {
+            code: 'INVALID_ID_FORMAT',
+            id: redactTestId(id, hashSecret),
+          },
+        },
+      ]);
+    });
+
+    it('omits hashed values when no secret is configured', async () => {
+      const result = await generateEntityObjectsById(
+        {query, variables: {id}},
+        {errorRedaction: {query: 'hash', id: 'hash'}}
+      );
+
+      expect(result.errors).toEqual([
+        {
+          message: 'Unexpected end of JSON input',
+          path: ['node'],
+          extensions: {code: 'INVALID_ID_FORMAT'},
+        },
+      ]);
+    });
+
+    it('redacts the query and id as configured', async () => {
+      const result = await generateEntityObjectsById(
+        {query, variables: {id}},
+        {errorRedaction: {query: 'truncate', id: 'omit', truncateLength: 10}}
+      );
+
+      expect(result.errors).toEqual([
+        {
+          message: 'Unexpected end of JSON input',
+          path: ['node'],
+          extensions: {
+            code: 'INVALID_ID_FORMAT',
+            query: `${query.slice(0, 10)}...`,
           },
         },
+      ]);
+    });
+
+    it('redacts the query and id in the legacy error format', async () => {
+      const result = await generateEntityObjectsById(
+        {query, variables: {id}},
+        {legacyErrorFormat: true, errorRedaction: {id: 'truncate'}}
+      );
+
+      expect(result.errors).toEqual([
+        {message: 'Unexpected end of JSON input', id: 'an invalid id'},
+      ]);
+    });
+
+    it('keeps the query and id verbatim in debug mode', async () => {
+      const result = await generateEntityObjectsById(
+        {query, variables: {id}},
+        {errorRedaction: {query: 'omit', id: 'omit'}, debug: true}
+      );
+
+      expect(result.errors).toEqual([
+        {
+          message: 'Unexpected end of JSON input',
+          path: ['node'],
+          extensions: {code: 'INVALID_ID_FORMAT', query, id},
+        },
+      ]);
+    });
+  });
+
+  describe('when the decoded key values are unsafe', () => {
+    const query = gql`
+      query GetNode($id: ID!) {
+        node(id: $id) {
+          id
+        }
+      }
+    `;
+
+    it.each([
+      ['["123"]', 'expected the key values to be an object'],
+      ['"123"', 'expected the key values to be an object'],
+      ['null', 'expected the key values to be an object'],
+      [
+        '{"__typename":"Admin","userId":1}',
+        'the key values contain the reserved field "__typename"',
+      ],
+      [
+        '{"id":"1","userId":1}',
+        'the key values contain the reserved field "id"',
+      ],
+      [
+        '{"__proto__":{"isAdmin":true},"userId":1}',
+        'the key values contain the unsafe field "__proto__"',
+      ],
+      [
+        '{"userId":1,"profile":{"constructor":{"prototype":{}}}}',
+        'the key values contain the unsafe field "prototype"',
+      ],
+    ])('rejects the key values %s', async (keyValues, expectedMessage) => {
+      const id = toGlobalId('User', keyValues);
+
+      const result = await generateEntityObjectsById({query, variables: {id}});
+
+      expect(result).toEqual({
+        data: {node: null},
+        errors: [
+          {
+            message: `Invalid id: ${expectedMessage}`,
+            path: ['node'],
+            extensions: {code: 'INVALID_ID_FORMAT'},
+          },
+        ],
+      });
+      expect(({} as Record<string, unknown>).isAdmin).toBeUndefined();
+    });
+
+    it('allows nested key values to carry their type name', async () => {
+      const keys = {author: {__typename: 'Author', authorId: 1}, isbn: '123'};
+      const id = toGlobalId('Book', JSON.stringify(keys));
+
+      const result = await generateEntityObjectsById({query, variables: {id}});
+
+      expect(result).toEqual({data: {node: {__typename: 'Book', id, ...keys}}});
+    });
+  });
+
+  describe('when limits are configured', () => {
+    const authorId = toGlobalId('Author', JSON.stringify({authorId: 1}));
+
+    it('rejects operations requesting more nodes than allowed', async () => {
+      const decode = jest.fn((value: string) => value);
+      const query = gql`
+        query GetAuthors($id: ID!, $ids: [ID!]!) {
+          first: node(id: $id) {
+            id
+          }
+          second: node(id: $id) {
+            id
+          }
+          nodes(ids: $ids) {
+            id
+          }
+        }
+      `;
+
+      const result = await generateEntityObjectsById(
+        {query, variables: {id: authorId, ids: [authorId, authorId]}},
+        {decode, limits: {maxNodeSelections: 3}}
+      );
+
+      expect(decode).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        data: null,
+        errors: [
+          {
+            message:
+              'The operation requests 4 nodes, which exceeds the limit of 3',
+            extensions: {code: 'LIMIT_EXCEEDED'},
+          },
+        ],
+      });
+    });
+
+    it('rejects documents with more tokens than allowed before parsing them', async () => {
+      const query = gql`
+        query GetAuthors($id: ID!) {
+          ${Array.from(
+            {length: 100},
+            (_, index) => `node${index}: node(id: $id) { id }`
+          ).join('\n')}
+        }
+      `;
+
+      const result = await generateEntityObjectsById(
+        {query, variables: {id: authorId}},
+        {limits: {maxTokens: 100}}
+      );
+
+      expect(result).toEqual({
+        data: null,
+        errors: [
+          {
+            message: expect.stringMatching(
+              /^Syntax Error: Document contains more .* 100 tokens/
+            ),
+            locations: [{line: 10, column: 17}],
+            extensions: {code: 'QUERY_PARSE_ERROR'},
+          },
+        ],
+      });
+    });
+
+    it('resolves operations within the limits', async () => {
+      const query = gql`
+        query GetAuthors($ids: [ID!]!) {
+          nodes(ids: $ids) {
+            id
+          }
+        }
+      `;
+
+      const result = await generateEntityObjectsById(
+        {query, variables: {ids: [authorId]}},
+        {
+          limits: {
+            maxNodeSelections: 1,
+            maxIdLength: authorId.length,
+            maxDecodedSize: 14,
+            maxDecodedDepth: 1,
+          },
+        }
+      );
+
+      expect(result).toEqual({
+        data: {nodes: [{__typename: 'Author', id: authorId, authorId: 1}]},
+      });
+    });
+
+    it("doesn't count brackets in strings towards the depth", async () => {
+      const authorId = toGlobalId('Author', JSON.stringify({authorId: '[{"}'}));
+      const query = gql`
+        query GetAuthor($id: ID!) {
+          node(id: $id) {
+            id
+          }
+        }
+      `;
+
+      const result = await generateEntityObjectsById(
+        {query, variables: {id: authorId}},
+        {limits: {maxDecodedDepth: 1}}
+      );
+
+      expect(result).toEqual({
+        data: {node: {__typename: 'Author', id: authorId, authorId: '[{"}'}},
       });
     });
+
+    it.each([
+      [
+        {maxIdLength: 10},
+        toGlobalId('Author', JSON.stringify({authorId: 1})),
+        'Id exceeds the maximum length of 10 characters',
+      ],
+      [
+        {maxDecodedSize: 10},
+        toGlobalId('Author', JSON.stringify({authorId: 1})),
+        'Decoded id exceeds the maximum size of 10 characters',
+      ],
+      [
+        {maxDecodedDepth: 2},
+        toGlobalId('Author', JSON.stringify({a: {b: {c: 1}}})),
+        'Decoded id exceeds the maximum depth of 2',
+      ],
+      [
+        {maxDecodedDepth: 10},
+        toGlobalId('Author', `${'{"a":'.repeat(10000)}1${'}'.repeat(10000)}`),
+        'Decoded id exceeds the maximum depth of 10',
+      ],
+    ])(
+      'returns an error for ids exceeding the limits %j',
+      async (limits, id, expectedMessage) => {
+        const query = gql`
+          query GetAuthor($id: ID!) {
+            node(id: $id) {
+              id
+            }
+          }
+        `;
+
+        const result = await generateEntityObjectsById(
+          {query, variables: {id}},
+          {limits}
+        );
+
+        expect(result).toEqual({
+          data: {node: null},
+          errors: [
+            {
+              message: expectedMessage,
+              path: ['node'],
+              extensions: {code: 'LIMIT_EXCEEDED'},
+            },
+          ],
+        });
+      }
+    );
   });
 
   describe('failure modes', () => {
@@ -253,7 +1513,8 @@ describe('generateEntityObjectsById', () => {
         errors: [
           {
             message: 'Syntax Error: Expected "{", found Name "schema".',
-            query,
+            locations: [{line: 2, column: 23}],
+            extensions: {code: 'QUERY_PARSE_ERROR'},
           },
         ],
       });
@@ -282,7 +1543,272 @@ describe('generateEntityObjectsById', () => {
 
       expect(result).toEqual({
         data: {node: null},
-        errors: [{message: 'Unexpected end of JSON input', query, id}],
+        errors: [
+          {
+            message: 'Unexpected end of JSON input',
+            path: ['node'],
+            extensions: {code: 'INVALID_ID_FORMAT'},
+          },
+        ],
+      });
+    });
+
+    it('returns an UNKNOWN_TYPE error when the type of the id cannot be resolved', async () => {
+      const query = gql`
+        query GetNode($id: ID!) {
+          node(id: $id) {
+            id
+          }
+        }
+      `;
+      const id = toGlobalId('{"authorId"', '1}');
+
+      const result = await generateEntityObjectsById({query, variables: {id}});
+
+      expect(result).toEqual({
+        data: {node: null},
+        errors: [
+          {
+            message: 'Unable to resolve the type of the id',
+            path: ['node'],
+            extensions: {code: 'UNKNOWN_TYPE'},
+          },
+        ],
+      });
+    });
+
+    it.each([
+      ['node', 'node', 'Unable to parse id from operation'],
+      ['nodes', 'nodes { id }', 'Unable to parse ids from operation'],
+    ])(
+      'returns a MISSING_ID error when the %s field has no id argument',
+      async (responseName, selection, expectedMessage) => {
+        const result = await generateEntityObjectsById({
+          query: `{ ${selection} }`,
+        });
+
+        expect(result).toEqual({
+          data: {[responseName]: null},
+          errors: [
+            {
+              message: expectedMessage,
+              path: [responseName],
+              extensions: {code: 'MISSING_ID'},
+            },
+          ],
+        });
+      }
+    );
+
+    it('reads integer id literals as strings', async () => {
+      const result = await generateEntityObjectsById({
+        query: '{ node(id: 123) { id } }',
+      });
+
+      expect(result.errors).toEqual([
+        expect.objectContaining({
+          path: ['node'],
+          extensions: {code: 'INVALID_ID_FORMAT'},
+        }),
+      ]);
+    });
+
+    it('returns a validation error for id literals of the wrong kind', async () => {
+      const result = await generateEntityObjectsById({
+        query: '{ node(id: 1.5) { id } }',
+      });
+
+      expect(result).toEqual({
+        data: {node: null},
+        errors: [
+          {
+            message: "'FloatValue' is not supported by the node field",
+            path: ['node'],
+            extensions: {code: 'QUERY_VALIDATION_ERROR'},
+          },
+        ],
+      });
+    });
+  });
+
+  describe('asynchronous decoding', () => {
+    const query = gql`
+      query GetAuthors($ids: [ID!]!) {
+        nodes(ids: $ids) {
+          id
+        }
+      }
+    `;
+    const johnId = toGlobalId('Author', 'John');
+    const janeId = toGlobalId('Author', 'Jane');
+
+    it('awaits the decoded ids concurrently and keeps the order of the ids', async () => {
+      const decoded: string[] = [];
+      const decode = (value: string) =>
+        new Promise<string>((resolve) =>
+          setTimeout(
+            () => {
+              decoded.push(value);
+              resolve(JSON.stringify({firstName: value}));
+            },
+            value === 'John' ? 20 : 0
+          )
+        );
+
+      const result = await generateEntityObjectsById(
+        {query, variables: {ids: [johnId, janeId]}},
+        {decode}
+      );
+
+      expect(decoded).toEqual(['Jane', 'John']);
+      expect(result).toEqual({
+        data: {
+          nodes: [
+            {__typename: 'Author', id: johnId, firstName: 'John'},
+            {__typename: 'Author', id: janeId, firstName: 'Jane'},
+          ],
+        },
+      });
+    });
+
+    it('passes a signal that follows the signal of the request to the decode callback', async () => {
+      const {signal, abort} = createTestAbortController();
+      let sawAbort = false;
+      const decode = (value: string, options?: {signal?: AbortSignal}) => {
+        abort();
+        sawAbort = Boolean(options?.signal?.aborted);
+        return JSON.stringify({firstName: value});
+      };
+
+      await generateEntityObjectsById(
+        {query, variables: {ids: [johnId]}},
+        {decode, signal}
+      );
+
+      expect(sawAbort).toBe(true);
+    });
+
+    it('aborts the signal passed to the decode callback once the request times out', async () => {
+      let decodeSignal: AbortSignal | undefined;
+      const decode = (_: string, options?: {signal?: AbortSignal}) => {
+        decodeSignal = options?.signal;
+        return new Promise<string>(() => undefined);
+      };
+
+      await generateEntityObjectsById(
+        {query, variables: {ids: [johnId]}},
+        {decode, timeout: 10}
+      );
+
+      expect(decodeSignal?.aborted).toBe(true);
+    });
+
+    it('returns an error for each id that is not decoded before the timeout', async () => {
+      const decode = (value: string) =>
+        value === 'John'
+          ? new Promise<string>(() => undefined)
+          : JSON.stringify({firstName: value});
+
+      const result = await generateEntityObjectsById(
+        {query, variables: {ids: [johnId, janeId]}},
+        {decode, timeout: 10}
+      );
+
+      expect(result).toEqual({
+        data: {
+          nodes: [null, {__typename: 'Author', id: janeId, firstName: 'Jane'}],
+        },
+        errors: [
+          {
+            message: 'The request timed out after 10ms',
+            path: ['nodes', 0],
+            extensions: {code: 'REQUEST_TIMEOUT'},
+          },
+        ],
+      });
+    });
+
+    it('treats a cache that does not respond before the timeout as a miss', async () => {
+      const decode = (value: string) => JSON.stringify({firstName: value});
+      const cache = {
+        get: () => new Promise<undefined>(() => undefined),
+        set: jest.fn(),
+      };
+
+      const result = await generateEntityObjectsById(
+        {query, variables: {ids: [johnId]}},
+        {decode, cache, timeout: 50}
+      );
+
+      expect(result).toEqual({
+        data: {nodes: [null]},
+        errors: [
+          {
+            message: 'The request timed out after 50ms',
+            path: ['nodes', 0],
+            extensions: {code: 'REQUEST_TIMEOUT'},
+          },
+        ],
+      });
+      expect(cache.set).toHaveBeenCalledWith(
+        query,
+        expect.objectContaining({operations: expect.any(Array)})
+      );
+    });
+
+    it.each([
+      ['does not respond', () => new Promise<void>(() => undefined)],
+      [
+        'fails',
+        async () => {
+          throw new Error('The cache is unavailable');
+        },
+      ],
+    ])(
+      'does not wait for a cache that %s to store the plan',
+      async (_, set) => {
+        const decode = (value: string) => JSON.stringify({firstName: value});
+        const cache = {get: () => undefined, set};
+
+        const result = await generateEntityObjectsById(
+          {query, variables: {ids: [johnId]}},
+          {decode, cache, timeout: 50}
+        );
+
+        expect(result).toEqual({
+          data: {
+            nodes: [{__typename: 'Author', id: johnId, firstName: 'John'}],
+          },
+        });
+      }
+    );
+
+    it('returns an error for each id that is not decoded before the request is aborted', async () => {
+      const {signal, abort} = createTestAbortController();
+      const decode = () => {
+        abort();
+        return new Promise<string>(() => undefined);
+      };
+
+      const result = await generateEntityObjectsById(
+        {query, variables: {ids: [johnId, janeId]}},
+        {decode, signal}
+      );
+
+      expect(result).toEqual({
+        data: {nodes: [null, null]},
+        errors: [
+          {
+            message: 'The request was aborted',
+            path: ['nodes', 0],
+            extensions: {code: 'REQUEST_ABORTED'},
+          },
+          {
+            message: 'The request was aborted',
+            path: ['nodes', 1],
+            extensions: {code: 'REQUEST_ABORTED'},
+          },
+        ],
       });
     });
   });
@@ -1,5 +1,10 @@
 import {handleFroidRequest} from '../handleFroidRequest';
-import {testGql as gql} from '../../__tests__/helpers';
+import {
+  createTestAbortController,
+  testGql as gql,
+} from '../../__tests__/helpers';
+import {parse, print} from 'graphql';
+import {toGlobalId} from 'graphql-relay';
 
 describe('handleFroidRequest', () => {
   describe('_entities requests', () => {
@@ -139,5 +144,177 @@ describe('handleFroidRequest', () => {
         },
       });
     });
+
+    it('executes the operation named by the request', async () => {
+      const query = gql`
+        query GetAuthor($id: ID!) {
+          author: node(id: $id) {
+            id
+          }
+        }
+
+        query GetBook($id: ID!) {
+          book: node(id: $id) {
+            id
+          }
+        }
+      `;
+      const variables = {
+        id: 'QXV0aG9yOnsiZmlyc3ROYW1lIjoiSm9obiIsImxhc3ROYW1lIjoiRG9lIn0=',
+      };
+
+      const result = await handleFroidRequest({
+        query,
+        operationName: 'GetAuthor',
+        variables,
+      });
+
+      expect(result).toEqual({
+        data: {
+          author: {
+            __typename: 'Author',
+            id: 'QXV0aG9yOnsiZmlyc3ROYW1lIjoiSm9obiIsImxhc3ROYW1lIjoiRG9lIn0=',
+            firstName: 'John',
+            lastName: 'Doe',
+          },
+        },
+      });
+    });
+  });
+
+  describe('_service requests', () => {
+    const sdl = gql`
+      type Query {
+        node(id: ID!): Node
+      }
+
+      interface Node {
+        id: ID!
+      }
+    `;
+    const query = gql`
+      query SubgraphIntrospectQuery {
+        _service {
+          sdl
+        }
+      }
+    `;
+
+    it('serves the configured schema string', async () => {
+      const result = await handleFroidRequest({query}, {sdl});
+
+      expect(result).toEqual({data: {_service: {sdl}}});
+    });
+
+    it('serves the configured schema document', async () => {
+      const result = await handleFroidRequest({query}, {sdl: parse(sdl)});
+
+      expect(result).toEqual({data: {_service: {sdl: print(parse(sdl))}}});
+    });
+
+    it('returns an error when no schema is configured', async () => {
+      const result = await handleFroidRequest({query});
+
+      expect(result).toEqual({
+        data: {_service: null},
+        errors: [
+          {
+            message: 'Cannot query field "_service" on type "Query".',
+            path: ['_service'],
+            extensions: {code: 'QUERY_VALIDATION_ERROR'},
+          },
+        ],
+      });
+    });
+  });
+
+  describe('aborted requests', () => {
+    it('returns an error for the node when the request has already been aborted', async () => {
+      const {signal, abort} = createTestAbortController();
+      const decode = jest.fn();
+      const id = toGlobalId('Author', JSON.stringify({authorId: 1}));
+      const query = gql`
+        query GetAuthor($id: ID!) {
+          node(id: $id) {
+            id
+          }
+        }
+      `;
+      abort();
+
+      const result = await handleFroidRequest(
+        {query, variables: {id}},
+        {decode, signal}
+      );
+
+      expect(decode).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        data: {node: null},
+        errors: [
+          {
+            message: 'The request was aborted',
+            path: ['node'],
+            extensions: {code: 'REQUEST_ABORTED'},
+          },
+        ],
+      });
+    });
+  });
+
+  describe('custom id codecs', () => {
+    const idCodec = {
+      serialize: (typename: string, keys: string) =>
+        `${typename.toLowerCase()}_${Buffer.from(keys).toString('hex')}`,
+      parse: (id: string) => {
+        const [typename, keys] = id.split('_');
+        return {
+          typename: typename.charAt(0).toUpperCase() + typename.slice(1),
+          keys: Buffer.from(keys, 'hex').toString(),
+        };
+      },
+    };
+
+    it('serializes ids with the custom codec', async () => {
+      const result = await handleFroidRequest(
+        {
+          query: '',
+          variables: {
+            representations: [{__typename: 'Author', authorId: 1}],
+          },
+        },
+        {idCodec}
+      );
+
+      expect(result).toEqual({
+        data: {
+          _entities: [
+            {
+              __typename: 'Author',
+              id: `author_${Buffer.from('{"authorId":1}').toString('hex')}`,
+            },
+          ],
+        },
+      });
+    });
+
+    it('parses ids with the custom codec', async () => {
+      const id = `author_${Buffer.from('{"authorId":1}').toString('hex')}`;
+      const query = gql`
+        query GetAuthor($id: ID!) {
+          node(id: $id) {
+            id
+          }
+        }
+      `;
+
+      const result = await handleFroidRequest(
+        {query, variables: {id}},
+        {idCodec}
+      );
+
+      expect(result).toEqual({
+        data: {node: {__typename: 'Author', id, authorId: 1}},
+      });
+    });
   });
 });
@@ -0,0 +1,82 @@
+import {indexManifestNodes, loadFroidManifest} from '../froidManifest';
+
+describe('loadFroidManifest', () => {
+  const manifest = {
+    nodes: [
+      {
+        typename: 'Book',
+        key: 'author { __typename authorId } isbn',
+        keyFields: [
+          {
+            name: 'author',
+            type: 'Author!',
+            fields: [{name: 'authorId', type: 'Int!'}],
+          },
+          {name: 'isbn', type: 'String!'},
+        ],
+        tags: ['storefront'],
+      },
+    ],
+  };
+
+  it('loads a manifest from JSON', () => {
+    expect(loadFroidManifest(JSON.stringify(manifest))).toEqual(manifest);
+  });
+
+  it('loads an already parsed manifest', () => {
+    expect(loadFroidManifest(manifest)).toEqual(manifest);
+  });
+
+  it.each([
+    ['{', 'expected valid JSON.'],
+    [{}, '"nodes" must be an array.'],
+    [{nodes: [{key: 'upc'}]}, '"nodes[0].typename" must be a string.'],
+    [
+      {nodes: [{typename: 'Product', key: ['upc']}]},
+      '"nodes[0].key" must be a string.',
+    ],
+    [
+      {nodes: [{typename: 'Product', keyFields: 'upc'}]},
+      '"nodes[0].keyFields" must be an array.',
+    ],
+    [
+      {nodes: [{typename: 'Product', keyFields: [{name: 'upc', type: 1}]}]},
+      '"nodes[0].keyFields[0].type" must be a string.',
+    ],
+    [
+      {
+        nodes: [
+          {
+            typename: 'Product',
+            keyFields: [{name: 'brand', fields: [{type: 'Int!'}]}],
+          },
+        ],
+      },
+      '"nodes[0].keyFields[0].fields[0].name" must be a string.',
+    ],
+    [
+      {nodes: [{typename: 'Product', tags: [1]}]},
+      '"nodes[0].tags" must be an array of strings.',
+    ],
+  ])('throws for the invalid manifest %j', (source, expectedMessage) => {
+    expect(() => loadFroidManifest(source)).toThrow(
+      `Invalid FROID manifest: ${expectedMessage}`
+    );
+  });
+});
+
+describe('indexManifestNodes', () => {
+  it('only indexes each manifest once', () => {
+    const manifest = {nodes: [{typename: 'Author', key: 'authorId'}]};
+
+    const manifestNodes = indexManifestNodes(manifest);
+
+    expect(manifestNodes.get('Author')).toEqual({
+      typename: 'Author',
+      key: 'authorId',
+      keyFields: [{name: 'authorId'}],
+    });
+    expect(indexManifestNodes(manifest)).toBe(manifestNodes);
+    expect(indexManifestNodes({...manifest})).not.toBe(manifestNodes);
+  });
+});
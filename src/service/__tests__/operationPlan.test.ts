@@ -0,0 +1,351 @@
+import {parse} from 'graphql';
+import {toGlobalId} from 'graphql-relay';
+import {compileOperationPlan, OPERATION_PLAN_VERSION} from '../operationPlan';
+import {jsonPlanSerializer} from '../createStoreFroidCache';
+import {generateEntityObjectsById} from '../generateEntityObjectsById';
+import {FroidCache, FroidOperationPlan} from '../types';
+import {testGql as gql} from '../../__tests__/helpers';
+
+describe('compileOperationPlan', () => {
+  const id = toGlobalId('Author', JSON.stringify({authorId: 1}));
+
+  it('compiles the response names, argument sources and directives of root fields', () => {
+    const plan = compileOperationPlan(
+      parse(gql`
+        query GetNodes($id: ID!, $ids: [ID!]! = ["b"], $hydrate: Boolean!) {
+          author: node(id: $id) @include(if: $hydrate) {
+            id
+          }
+          nodes(ids: ["a", $id]) @skip(if: false) {
+            id
+          }
+          ...RootFields
+        }
+
+        fragment RootFields on Query {
+          __typename
+        }
+      `)
+    );
+
+    expect(plan.operations).toEqual([
+      {
+        name: 'GetNodes',
+        operation: 'query',
+        variableDefaults: {ids: ['b']},
+        selections: [
+          {
+            kind: 'Field',
+            responseName: 'author',
+            fieldName: 'node',
+            argument: {variable: 'id'},
+            selectionSet: expect.any(Object),
+            conditions: {
+              include: {variable: 'hydrate', position: expect.any(Number)},
+            },
+          },
+          {
+            kind: 'Field',
+            responseName: 'nodes',
+            fieldName: 'nodes',
+            argument: {list: [{literal: 'a'}, {variable: 'id'}]},
+            selectionSet: expect.any(Object),
+            conditions: {skip: {literal: false}},
+          },
+          {kind: 'FragmentSpread', name: 'RootFields', conditions: {}},
+        ],
+      },
+    ]);
+    expect(plan.fragments).toEqual({
+      RootFields: [
+        {
+          kind: 'Field',
+          responseName: '__typename',
+          fieldName: '__typename',
+          conditions: {},
+        },
+      ],
+    });
+  });
+
+  it('leaves out the selections of fragments that never apply to the query type', () => {
+    const plan = compileOperationPlan(
+      parse(gql`
+        query {
+          ... on Author {
+            __typename
+          }
+          ...AuthorFields
+        }
+
+        fragment AuthorFields on Author {
+          __typename
+        }
+      `)
+    );
+
+    expect(plan.operations[0].selections).toEqual([
+      {kind: 'InlineFragment', selections: [], conditions: {}},
+      {kind: 'FragmentSpread', name: 'AuthorFields', conditions: {}},
+    ]);
+    expect(plan.fragments).toEqual({});
+  });
+
+  it('keeps only the named fragments spread within the selections of its fields', () => {
+    const plan = compileOperationPlan(
+      parse(gql`
+        query GetNode($id: ID!) {
+          node(id: $id) {
+            ...AuthorFields
+          }
+          ...RootFields
+        }
+
+        fragment RootFields on Query {
+          __typename
+        }
+
+        fragment AuthorFields on Author {
+          ...AuthorNames
+        }
+
+        fragment AuthorNames on Author {
+          firstName
+        }
+
+        fragment UnusedFields on Author {
+          lastName
+        }
+      `)
+    );
+
+    expect(plan.version).toEqual(OPERATION_PLAN_VERSION);
+    expect(plan).not.toHaveProperty('document');
+    expect(Object.keys(plan.fragments)).toEqual(['RootFields']);
+    expect(Object.keys(plan.fragmentDefinitions)).toEqual([
+      'AuthorFields',
+      'AuthorNames',
+    ]);
+  });
+
+  it.each([
+    [
+      'at the root of the operation',
+      gql`
+        query GetNode {
+          ...Missing
+        }
+      `,
+      {line: 3, column: 11},
+    ],
+    [
+      'within a fragment',
+      gql`
+        query GetNode($id: ID!) {
+          node(id: $id) {
+            ...AuthorFields
+          }
+        }
+
+        fragment AuthorFields on Author {
+          ...Missing
+        }
+      `,
+      {line: 9, column: 11},
+    ],
+  ])(
+    'rejects spreads of fragments that are not defined %s',
+    async (_, query, location) => {
+      const cache = {get: () => undefined, set: jest.fn()};
+
+      const result = await generateEntityObjectsById(
+        {query, variables: {id}},
+        {cache}
+      );
+
+      expect(result).toEqual({
+        data: null,
+        errors: [
+          {
+            message: 'Unknown fragment "Missing".',
+            locations: [location],
+            extensions: {code: 'QUERY_VALIDATION_ERROR'},
+          },
+        ],
+      });
+      expect(cache.set).not.toHaveBeenCalled();
+    }
+  );
+
+  it('executes plans read from a serialized cache, locating errors in the query', async () => {
+    const query = gql`
+      query GetNode($id: ID!, $hydrate: Boolean) {
+        node(id: $id) @include(if: $hydrate) {
+          id
+        }
+      }
+    `;
+    const plan = jsonPlanSerializer.deserialize(
+      jsonPlanSerializer.serialize(compileOperationPlan(parse(query)))
+    ) as FroidOperationPlan;
+    const cache = {get: () => plan, set: jest.fn()};
+
+    const result = await generateEntityObjectsById(
+      {query, variables: {id, hydrate: true}},
+      {cache}
+    );
+    const errorResult = await generateEntityObjectsById(
+      {query, variables: {id}},
+      {cache}
+    );
+
+    expect(result).toEqual({
+      data: {node: {__typename: 'Author', id, authorId: 1}},
+    });
+    expect(errorResult).toEqual({
+      data: null,
+      errors: [
+        {
+          message:
+            'Argument "if" of required type "Boolean!" was provided the variable "$hydrate" which was not provided a runtime value.',
+          locations: [{line: 3, column: 36}],
+          extensions: {code: 'QUERY_VALIDATION_ERROR'},
+        },
+      ],
+    });
+    expect(cache.set).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['without a version', {operations: []}],
+    [
+      'of another version',
+      {operations: [], fragments: {}, version: OPERATION_PLAN_VERSION + 1},
+    ],
+  ])(
+    'compiles again and replaces plans %s returned by a cache',
+    async (_, stalePlan) => {
+      const query = gql`
+        query GetNode($id: ID!) {
+          node(id: $id) {
+            id
+          }
+        }
+      `;
+      const cache = {
+        get: () => stalePlan as unknown as FroidOperationPlan,
+        set: jest.fn(),
+      };
+
+      const result = await generateEntityObjectsById(
+        {query, variables: {id}},
+        {cache}
+      );
+
+      expect(result).toEqual({
+        data: {node: {__typename: 'Author', id, authorId: 1}},
+      });
+      expect(cache.set).toHaveBeenCalledWith(
+        query,
+        expect.objectContaining({version: OPERATION_PLAN_VERSION})
+      );
+    }
+  );
+
+  it('compiles and replaces parsed documents returned by a cache', async () => {
+    const query = gql`
+      query GetNode($id: ID!) {
+        node(id: $id) {
+          id
+        }
+      }
+    `;
+    const cache = {get: () => parse(query), set: jest.fn()};
+
+    const result = await generateEntityObjectsById(
+      {query, variables: {id}},
+      {cache}
+    );
+
+    expect(result).toEqual({
+      data: {node: {__typename: 'Author', id, authorId: 1}},
+    });
+    expect(cache.set).toHaveBeenCalledWith(
+      query,
+      expect.objectContaining({operations: expect.any(Array)})
+    );
+  });
+});
+
+// Wall-clock comparisons are too noisy for the regular suite, so the timing
+// comparison only runs when opted into with `yarn test:benchmark`. The code
+// paths it compares are always exercised.
+const itBenchmark = process.env.FROID_BENCHMARK ? it : it.skip;
+
+describe('compileOperationPlan (benchmark)', () => {
+  const id = toGlobalId('Author', JSON.stringify({authorId: 1}));
+  const fieldCount = 50;
+  const iterations = 100;
+  const query = gql`
+    query GetNodes($id: ID!, $hydrate: Boolean!) {
+      ${Array.from(
+        {length: fieldCount},
+        (_, index) => `
+          ... on Query @include(if: $hydrate) {
+            node${index}: node(id: $id) @skip(if: false) {
+              id
+            }
+          }
+        `
+      ).join('')}
+    }
+  `;
+  const document = parse(query);
+  const plan = compileOperationPlan(document);
+  // A cache of parsed documents has them compiled on every request, which
+  // is equivalent to visiting the document on every request
+  const documentCache: FroidCache = {get: () => document, set: jest.fn()};
+  const planCache: FroidCache = {get: () => plan, set: jest.fn()};
+
+  const request = (cache: FroidCache) =>
+    generateEntityObjectsById({query, variables: {id, hydrate: true}}, {cache});
+
+  it('resolves the same response when re-visiting the document and with a compiled plan', async () => {
+    const documentResult = await request(documentCache);
+    const planResult = await request(planCache);
+
+    expect(Object.keys(planResult.data || {})).toHaveLength(fieldCount);
+    expect(planResult).toEqual(documentResult);
+  });
+
+  itBenchmark(
+    'is faster to execute than re-visiting the document',
+    async () => {
+      const run = async (cache: FroidCache) => {
+        const start = process.hrtime.bigint();
+        for (let i = 0; i < iterations; i++) {
+          await request(cache);
+        }
+        return Number(process.hrtime.bigint() - start) / 1e6;
+      };
+
+      // Warm up both code paths, then keep the best of a few runs of each to
+      // keep the comparison stable on busy machines
+      let documentTime = Infinity;
+      let planTime = Infinity;
+      for (let i = 0; i < 4; i++) {
+        documentTime = Math.min(documentTime, await run(documentCache));
+        planTime = Math.min(planTime, await run(planCache));
+      }
+
+      console.info(
+        `${iterations} requests: ${documentTime.toFixed(
+          1
+        )}ms re-visiting the ` +
+          `document, ${planTime.toFixed(1)}ms with a compiled plan ` +
+          `(${(documentTime / planTime).toFixed(2)}x)`
+      );
+      expect(planTime).toBeLessThan(documentTime);
+    }
+  );
+});
@@ -0,0 +1,46 @@
+/**
+ * Serializes a JSON value following the JSON Canonicalization Scheme (JCS,
+ * RFC 8785), so that equal values always serialize to the same string.
+ *
+ * Object members are sorted by the UTF-16 code units of their names (at every
+ * level), arrays keep their order, and numbers and strings are serialized the
+ * way ECMAScript's `JSON.stringify` serializes them, as JCS requires. Like
+ * `JSON.stringify`, object members whose value is `undefined` are omitted.
+ *
+ * @param {unknown} value - The JSON value
+ * @returns {string} The canonical JSON serialization of the value
+ */
+export function canonicalizeJson(value: unknown): string {
+  if (value === null || typeof value === 'boolean') {
+    return JSON.stringify(value);
+  }
+
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Unable to canonicalize the number "${value}"`);
+    }
+    return JSON.stringify(value);
+  }
+
+  if (typeof value === 'string') {
+    return JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value
+      .map((item) => (item === undefined ? 'null' : canonicalizeJson(item)))
+      .join(',')}]`;
+  }
+
+  if (typeof value === 'object') {
+    const object = value as Record<string, unknown>;
+    // The default sort compares UTF-16 code units, as JCS requires
+    return `{${Object.keys(object)
+      .filter((key) => object[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalizeJson(object[key])}`)
+      .join(',')}}`;
+  }
+
+  throw new Error(`Unable to canonicalize a value of type "${typeof value}"`);
+}
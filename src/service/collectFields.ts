@@ -0,0 +1,194 @@
+import {
+  DocumentNode,
+  FieldNode,
+  FragmentDefinitionNode,
+  FragmentSpreadNode,
+  InlineFragmentNode,
+  SelectionSetNode,
+} from 'graphql/language/ast';
+import {Kind} from 'graphql/language/kinds';
+import {
+  GraphQLIncludeDirective,
+  GraphQLSkipDirective,
+  getDirectiveValues,
+} from 'graphql';
+import {NODE_INTERFACE_NAME} from '../schema/constants';
+
+/**
+ * Determines whether a selection should be included based on its `@skip` and `@include` directives
+ *
+ * @param {FieldNode|FragmentSpreadNode|InlineFragmentNode} node - The selection
+ * @param {object} variableValues - The variable values used to execute the request
+ * @returns {boolean} Whether or not the selection should be included
+ */
+function shouldIncludeNode(
+  node: FieldNode | FragmentSpreadNode | InlineFragmentNode,
+  variableValues: Record<string, any>
+): boolean {
+  const skip = getDirectiveValues(GraphQLSkipDirective, node, variableValues);
+  if (skip?.if === true) {
+    return false;
+  }
+
+  const include = getDirectiveValues(
+    GraphQLIncludeDirective,
+    node,
+    variableValues
+  );
+  if (include?.if === false) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Determines whether a fragment's type condition applies to an object.
+ *
+ * The FROID service has no knowledge of the full schema, so the only type
+ * conditions that can be matched are the object's own type and the `Node`
+ * interface. When the object's type is unknown, every fragment applies.
+ *
+ * @param {string|undefined} typeCondition - The fragment's type condition
+ * @param {string|undefined} typename - The name of the object's type
+ * @returns {boolean} Whether or not the fragment applies
+ */
+export function doesFragmentConditionMatch(
+  typeCondition: string | undefined,
+  typename: string | undefined
+): boolean {
+  return (
+    !typeCondition ||
+    !typename ||
+    typeCondition === typename ||
+    typeCondition === NODE_INTERFACE_NAME
+  );
+}
+
+/**
+ * Gets the named fragments of a document, keyed by their name
+ *
+ * @param {DocumentNode} document - The parsed query document
+ * @returns {Record<string, FragmentDefinitionNode>} The named fragments
+ */
+export function getFragments(
+  document: DocumentNode
+): Record<string, FragmentDefinitionNode> {
+  const fragments: Record<string, FragmentDefinitionNode> = {};
+  document.definitions.forEach((definition) => {
+    if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+      fragments[definition.name.value] = definition;
+    }
+  });
+  return fragments;
+}
+
+/**
+ * Collects the fields selected on an object type, keyed by their response name.
+ * Inline fragments and named fragment spreads that apply to the object type are
+ * followed, but the selections of the collected fields are never traversed
+ * (e.g. connection `edges { node { ... } }` selections).
+ *
+ * @param {SelectionSetNode} selectionSet - The selection set to collect fields from
+ * @param {string|undefined} typename - The name of the object type the selection set applies to, if known
+ * @param {Record<string, FragmentDefinitionNode>} fragments - The named fragments of the document
+ * @param {object} variableValues - The variable values used to evaluate `@skip` and `@include` directives
+ * @param {Map<string, FieldNode[]>} fields - The fields collected so far
+ * @param {Set<string>} visitedFragmentNames - The named fragments that have already been followed
+ * @returns {Map<string, FieldNode[]>} The collected fields
+ */
+export function collectFields(
+  selectionSet: SelectionSetNode,
+  typename: string | undefined,
+  fragments: Record<string, FragmentDefinitionNode>,
+  variableValues: Record<string, any>,
+  fields: Map<string, FieldNode[]> = new Map(),
+  visitedFragmentNames: Set<string> = new Set()
+): Map<string, FieldNode[]> {
+  selectionSet.selections.forEach((selection) => {
+    if (!shouldIncludeNode(selection, variableValues)) {
+      return;
+    }
+
+    switch (selection.kind) {
+      case Kind.FIELD: {
+        // We need to track the client-side alias used to ensure we return the
+        // correct key in our data response. We use the actual field name if
+        // there is no alias (cause you get what you ask for ;)!)
+        const responseName = selection.alias
+          ? selection.alias.value
+          : selection.name.value;
+        fields.set(responseName, [
+          ...(fields.get(responseName) || []),
+          selection,
+        ]);
+        return;
+      }
+      case Kind.INLINE_FRAGMENT: {
+        if (
+          !doesFragmentConditionMatch(
+            selection.typeCondition?.name.value,
+            typename
+          )
+        ) {
+          return;
+        }
+        collectFields(
+          selection.selectionSet,
+          typename,
+          fragments,
+          variableValues,
+          fields,
+          visitedFragmentNames
+        );
+        return;
+      }
+      case Kind.FRAGMENT_SPREAD: {
+        const fragmentName = selection.name.value;
+        const fragment = fragments[fragmentName];
+        if (
+          visitedFragmentNames.has(fragmentName) ||
+          !fragment ||
+          !doesFragmentConditionMatch(
+            fragment.typeCondition.name.value,
+            typename
+          )
+        ) {
+          return;
+        }
+        visitedFragmentNames.add(fragmentName);
+        collectFields(
+          fragment.selectionSet,
+          typename,
+          fragments,
+          variableValues,
+          fields,
+          visitedFragmentNames
+        );
+        return;
+      }
+    }
+  });
+
+  return fields;
+}
+
+/**
+ * Merges the selection sets of fields that share a response name
+ *
+ * @param {Array<{selectionSet?: SelectionSetNode}>} fields - The fields (or compiled fields) that share a response name
+ * @returns {SelectionSetNode|undefined} The merged selection set, if the fields have selections
+ */
+export function mergeSelectionSets(
+  fields: Array<{selectionSet?: SelectionSetNode}>
+): SelectionSetNode | undefined {
+  const selections = fields.flatMap(
+    (field) => field.selectionSet?.selections || []
+  );
+
+  if (!selections.length) {
+    return;
+  }
+
+  return {kind: Kind.SELECTION_SET, selections};
+}
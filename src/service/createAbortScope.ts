@@ -0,0 +1,161 @@
+import {
+  createFroidError,
+  REQUEST_ABORTED,
+  REQUEST_TIMEOUT,
+} from './froidErrors';
+
+export type AbortScopeOptions = {
+  signal?: AbortSignal;
+  timeout?: number;
+};
+
+type TaskOutcome<T> = {ok: true; value: T} | {ok: false; error: unknown};
+
+export type AbortScope = {
+  signal: AbortSignal;
+  run: <T>(task: () => T | Promise<T>) => Promise<T>;
+  dispose: () => void;
+};
+
+type ScopeAbortController = {
+  signal: AbortSignal;
+  abort: (reason: Error) => void;
+};
+
+/**
+ * Creates the controller used to tell the tasks of a request to stop. Not
+ * every Node.js version we support provides a global AbortController, so a
+ * minimal stand-in is used when it isn't available.
+ *
+ * @returns {ScopeAbortController} The controller
+ */
+function createAbortController(): ScopeAbortController {
+  if (typeof AbortController !== 'undefined') {
+    const controller = new AbortController();
+    return {
+      signal: controller.signal,
+      abort: (reason) => controller.abort(reason),
+    };
+  }
+
+  const listeners = new Set<() => void>();
+  const signal = {
+    aborted: false,
+    reason: undefined as unknown,
+    addEventListener: (_: string, listener: () => void) =>
+      listeners.add(listener),
+    removeEventListener: (_: string, listener: () => void) =>
+      listeners.delete(listener),
+  };
+
+  return {
+    signal: signal as unknown as AbortSignal,
+    abort: (reason) => {
+      if (!signal.aborted) {
+        signal.aborted = true;
+        signal.reason = reason;
+        listeners.forEach((listener) => listener());
+      }
+    },
+  };
+}
+
+/**
+ * Gets the error used to reject the tasks of an aborted request
+ *
+ * @param {AbortSignal} signal - The signal that was aborted
+ * @returns {Error} The abort error
+ */
+function getAbortError(signal: AbortSignal): Error {
+  // `reason` isn't available on every runtime we support
+  const reason = (signal as {reason?: unknown}).reason;
+
+  return reason instanceof Error
+    ? reason
+    : createFroidError('The request was aborted', REQUEST_ABORTED);
+}
+
+/**
+ * Creates a scope that races the tasks of a request against the request's
+ * AbortSignal and timeout, so that a slow or hanging callback can't hold up
+ * the response. Tasks that are still pending when the request is aborted or
+ * times out are rejected, but are not cancelled unless they observe the
+ * scope's signal, which is aborted as soon as either happens.
+ *
+ * The scope must be disposed of once the request settles to clear its timer.
+ *
+ * @param {object} options - Optional options for configuring the scope
+ * @param {AbortSignal} options.signal - Signal used to abort the request
+ * @param {number} options.timeout - The number of milliseconds the request is allowed to take
+ * @returns {AbortScope} The abort scope
+ */
+export function createAbortScope({
+  signal,
+  timeout,
+}: AbortScopeOptions = {}): AbortScope {
+  let abortError: Error | undefined;
+  const pendingTasks = new Set<(error: Error) => void>();
+  const controller = createAbortController();
+
+  const abort = (error: Error) => {
+    if (!abortError) {
+      abortError = error;
+      controller.abort(error);
+      pendingTasks.forEach((onTaskAborted) => onTaskAborted(error));
+    }
+  };
+  const onAbort = () => signal && abort(getAbortError(signal));
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort);
+  }
+
+  const timer =
+    timeout !== undefined
+      ? setTimeout(
+          () =>
+            abort(
+              createFroidError(
+                `The request timed out after ${timeout}ms`,
+                REQUEST_TIMEOUT
+              )
+            ),
+          timeout
+        )
+      : undefined;
+
+  return {
+    signal: controller.signal,
+    run: async <T>(task: () => T | Promise<T>) => {
+      // Don't start any new work once the request has been aborted
+      if (abortError) {
+        throw abortError;
+      }
+
+      // The race always settles with an outcome rather than rejecting, so
+      // that an abort can't surface as an unhandled rejection
+      const outcome = await new Promise<TaskOutcome<T>>((resolve) => {
+        const onTaskAborted = (error: Error) => resolve({ok: false, error});
+        pendingTasks.add(onTaskAborted);
+        Promise.resolve()
+          .then(task)
+          .then(
+            (value) => resolve({ok: true, value}),
+            (error) => resolve({ok: false, error})
+          )
+          .finally(() => pendingTasks.delete(onTaskAborted));
+      });
+
+      if (!outcome.ok) {
+        throw outcome.error;
+      }
+      return outcome.value;
+    },
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
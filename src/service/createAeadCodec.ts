@@ -0,0 +1,135 @@
+import crypto from 'crypto';
+import {DecodeCallback, EncodeCallback} from './types';
+import {createFroidError, DECODE_FAILED} from './froidErrors';
+
+const ENCRYPTION_ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const NONCE_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+const KEY_ID_SEPARATOR = '.';
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export type AeadCodecOptions = {
+  keys: Record<string, Buffer | string>;
+  activeKeyId: string;
+};
+
+export type AeadCodec = {
+  encode: EncodeCallback;
+  decode: DecodeCallback;
+};
+
+/**
+ * Validates and normalizes an encryption key
+ *
+ * @param {string} keyId - The identifier of the key
+ * @param {Buffer|string} key - The 32 byte key, or its base64 encoding
+ * @returns {Buffer} The key
+ */
+function toKeyBuffer(keyId: string, key: Buffer | string): Buffer {
+  if (!KEY_ID_PATTERN.test(keyId)) {
+    throw new Error(
+      `Invalid key id "${keyId}". Key ids may only contain letters, numbers, "_" and "-".`
+    );
+  }
+
+  const keyBuffer = typeof key === 'string' ? Buffer.from(key, 'base64') : key;
+
+  if (keyBuffer.length !== KEY_LENGTH) {
+    throw new Error(
+      `Invalid key "${keyId}". Keys must be ${KEY_LENGTH} bytes long.`
+    );
+  }
+
+  return keyBuffer;
+}
+
+/**
+ * Creates an `encode`/`decode` pair that encrypts the key values of
+ * identifiers with AES-256-GCM.
+ *
+ * Every encoded value is prefixed with the id of the key it was encrypted
+ * with (which is also authenticated as additional data), followed by a random
+ * nonce, the ciphertext and the authentication tag. Values are always encoded
+ * with the active key, while any of the configured keys can decode, so keys
+ * can be rotated without invalidating the identifiers already handed out.
+ *
+ * @param {object} options - Options for configuring the codec
+ * @param {Record<string, Buffer|string>} options.keys - The 32 byte encryption keys (or their base64 encoding), keyed by their id
+ * @param {string} options.activeKeyId - The id of the key used to encode new values
+ * @returns {AeadCodec} The `encode` and `decode` callbacks
+ */
+export function createAeadCodec({
+  keys,
+  activeKeyId,
+}: AeadCodecOptions): AeadCodec {
+  const keyBuffers = new Map(
+    Object.entries(keys).map(([keyId, key]) => [keyId, toKeyBuffer(keyId, key)])
+  );
+  const activeKey = keyBuffers.get(activeKeyId);
+
+  if (!activeKey) {
+    throw new Error(`The active key "${activeKeyId}" is not a configured key.`);
+  }
+
+  const encode = (value: string): string => {
+    const nonce = crypto.randomBytes(NONCE_LENGTH);
+    const cipher = crypto.createCipheriv(
+      ENCRYPTION_ALGORITHM,
+      activeKey,
+      nonce,
+      {authTagLength: AUTH_TAG_LENGTH}
+    );
+    cipher.setAAD(Buffer.from(activeKeyId));
+    const ciphertext = Buffer.concat([cipher.update(value), cipher.final()]);
+
+    return [
+      activeKeyId,
+      Buffer.concat([nonce, ciphertext, cipher.getAuthTag()]).toString(
+        'base64'
+      ),
+    ].join(KEY_ID_SEPARATOR);
+  };
+
+  const decode = (value: string): string => {
+    const separatorIndex = value.indexOf(KEY_ID_SEPARATOR);
+    const keyId = value.slice(0, separatorIndex);
+    const key = separatorIndex > 0 ? keyBuffers.get(keyId) : undefined;
+
+    if (!key) {
+      throw createFroidError(
+        'Unable to decrypt id: unknown key',
+        DECODE_FAILED
+      );
+    }
+
+    const payload = Buffer.from(value.slice(separatorIndex + 1), 'base64');
+
+    if (payload.length < NONCE_LENGTH + AUTH_TAG_LENGTH) {
+      throw createFroidError('Unable to decrypt id', DECODE_FAILED);
+    }
+
+    try {
+      const decipher = crypto.createDecipheriv(
+        ENCRYPTION_ALGORITHM,
+        key,
+        payload.subarray(0, NONCE_LENGTH),
+        {authTagLength: AUTH_TAG_LENGTH}
+      );
+      decipher.setAAD(Buffer.from(keyId));
+      decipher.setAuthTag(payload.subarray(payload.length - AUTH_TAG_LENGTH));
+
+      return Buffer.concat([
+        decipher.update(
+          payload.subarray(NONCE_LENGTH, payload.length - AUTH_TAG_LENGTH)
+        ),
+        decipher.final(),
+      ]).toString();
+    } catch {
+      // Don't leak why decryption failed (e.g. a tampered ciphertext)
+      throw createFroidError('Unable to decrypt id', DECODE_FAILED);
+    }
+  };
+
+  return {encode, decode};
+}
@@ -0,0 +1,12 @@
+import crypto from 'crypto';
+
+/**
+ * Creates the key used to cache the plan of a query, so that caches don't
+ * hold on to (or expose) the query strings themselves
+ *
+ * @param {string} query - The query string
+ * @returns {string} The SHA-256 hash of the query string
+ */
+export function createCacheKey(query: string): string {
+  return crypto.createHash('sha256').update(query).digest('hex');
+}
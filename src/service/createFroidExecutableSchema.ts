@@ -0,0 +1,250 @@
+import {
+  DocumentNode,
+  GraphQLFieldResolver,
+  GraphQLSchema,
+  Kind,
+  ObjectTypeDefinitionNode,
+  buildASTSchema,
+  parse,
+} from 'graphql';
+import {FroidSchema} from '../schema/FroidSchema';
+import {NODE_INTERFACE_NAME} from '../schema/constants';
+import {
+  generateEntityId,
+  GenerateEntityObjectsWithIdOptions,
+} from './generateEntityObjectWithId';
+import {
+  generateEntityObject,
+  GenerateEntityObjectsByIdOptions,
+} from './generateEntityObjectsById';
+import {FroidRequestLimits, RepresentationObject} from './types';
+import {AbortScope, createAbortScope} from './createAbortScope';
+import {createIdSigner} from './createIdSigner';
+import {createIdVersioner} from './createIdVersioner';
+import {indexManifestNodes} from './froidManifest';
+import {createLimitExceededError} from './requestLimits';
+
+const ENTITY_UNION_NAME = '_Entity';
+
+export type CreateFroidExecutableSchemaOptions =
+  // The manifest is always derived from the FROID schema, errors are formatted
+  // by graphql-js and requests are aborted through the execution context
+  Omit<
+    GenerateEntityObjectsWithIdOptions,
+    'manifest' | 'legacyErrorFormat' | 'signal' | 'timeout'
+  > &
+    Pick<
+      GenerateEntityObjectsByIdOptions,
+      'decode' | 'idCodec' | 'versioning' | 'strictKeyValidation'
+    >;
+
+export type FroidExecutionContext = {
+  abortScope?: AbortScope;
+  limits?: FroidRequestLimits;
+};
+
+/**
+ * Creates the federation subgraph definitions needed to serve the FROID schema.
+ *
+ * @param {string[]} entityNames - The names of the entities in the FROID schema
+ * @returns {DocumentNode} The federation subgraph definitions
+ */
+function createFederationDefinitions(entityNames: string[]): DocumentNode {
+  const hasEntities = entityNames.length > 0;
+
+  return parse(`
+    scalar _Any
+
+    type _Service {
+      sdl: String
+    }
+
+    ${
+      hasEntities
+        ? `union ${ENTITY_UNION_NAME} = ${entityNames.join(' | ')}`
+        : ''
+    }
+
+    extend type Query {
+      ${
+        hasEntities
+          ? `_entities(representations: [_Any!]!): [${ENTITY_UNION_NAME}]!`
+          : ''
+      }
+      _service: _Service!
+    }
+  `);
+}
+
+/**
+ * Creates a graphql-js executable schema that serves the FROID schema.
+ *
+ * The `node`, `nodes`, `_entities` and `_service` root fields are backed by
+ * resolvers, which allows FROID requests to be run through graphql-js'
+ * `execute()` for spec-compliant validation and execution.
+ *
+ * The resolvers run the encoding and decoding callbacks within the `abortScope`
+ * of the execution context, and apply the `limits` of the execution context
+ * instead of `options.limits`, when they are provided (see handleFroidRequest).
+ *
+ * @param {FroidSchema} froidSchema - The FROID schema to serve
+ * @param {object} options - Optional options for configuring the executable schema
+ * @param {encoderCallback} options.encode - Encoding method used to generate the key arguments
+ * @param {decoderCallback} options.decode - Decoding method used to derive the key arguments
+ * @param {object} options.signing - Secrets used to sign ids and verify their signature
+ * @param {object} options.idCodec - Codec used to serialize and parse ids
+ * @param {object} options.versioning - The format version to tag ids with, and the decoders used for each format version
+ * @param {boolean} options.normalizeRepresentations - Whether to project `_entities` representations down to the selected key of their type before generating their id
+ * @param {boolean} options.legacyKeySerialization - Whether to keep serializing key values the way ids were generated before canonical JSON was used
+ * @param {boolean} options.strictKeyValidation - Whether to reject ids whose key values have fields that aren't part of the type's key
+ * @param {FroidRequestLimits} options.limits - Limits on the number of representations in a batch, and on the size of ids and their decoded key values
+ * @returns {GraphQLSchema} The executable schema
+ */
+export function createFroidExecutableSchema(
+  froidSchema: FroidSchema,
+  options: CreateFroidExecutableSchemaOptions = {}
+): GraphQLSchema {
+  const encode = options.encode || ((value) => value);
+  const decode = options.decode || ((keyString) => keyString);
+  const idOptions = {
+    signer: options.signing && createIdSigner(options.signing),
+    idCodec: options.idCodec,
+    versioner: options.versioning && createIdVersioner(options.versioning),
+    // Only ids for the node types of the FROID schema can be resolved
+    manifestNodes: indexManifestNodes(froidSchema.toManifest()),
+    normalizeRepresentations: options.normalizeRepresentations,
+    legacyKeySerialization: options.legacyKeySerialization,
+    strictKeyValidation: options.strictKeyValidation,
+  };
+  const froidAst = froidSchema.toAst();
+  const sdl = froidSchema.toString();
+
+  const entityNames = froidAst.definitions
+    .filter(
+      (definition): definition is ObjectTypeDefinitionNode =>
+        definition.kind === Kind.OBJECT_TYPE_DEFINITION &&
+        Boolean(
+          definition.interfaces?.some(
+            (entityInterface) =>
+              entityInterface.name.value === NODE_INTERFACE_NAME
+          )
+        )
+    )
+    .map((definition) => definition.name.value);
+
+  // The FROID schema references federation directives it doesn't define,
+  // so SDL validation needs to be skipped when building the schema
+  const schema = buildASTSchema(
+    {
+      kind: Kind.DOCUMENT,
+      definitions: [
+        ...froidAst.definitions,
+        ...createFederationDefinitions(entityNames).definitions,
+      ],
+    },
+    {assumeValidSDL: true}
+  );
+
+  const getAbortScope = (context?: FroidExecutionContext) =>
+    context?.abortScope || createAbortScope();
+  const getLimits = (context?: FroidExecutionContext) =>
+    context?.limits || options.limits || {};
+
+  const resolvers: Record<
+    string,
+    GraphQLFieldResolver<unknown, FroidExecutionContext | undefined>
+  > = {
+    node: (_, {id}, context) => {
+      const scope = getAbortScope(context);
+      const limits = getLimits(context);
+      return scope.run(() =>
+        generateEntityObject(
+          id,
+          decode,
+          {signal: scope.signal},
+          {...idOptions, limits}
+        )
+      );
+    },
+    nodes: (_, {ids}, context) => {
+      const scope = getAbortScope(context);
+      const limits = getLimits(context);
+      // Errors are returned in place so that each one is reported at its
+      // position in the list while the rest of the list still resolves
+      return Promise.all(
+        ids.map((id) =>
+          scope
+            .run(() =>
+              generateEntityObject(
+                id,
+                decode,
+                {signal: scope.signal},
+                {...idOptions, limits}
+              )
+            )
+            .catch((error) => error)
+        )
+      );
+    },
+    _entities: (_, {representations}, context) => {
+      const {maxRepresentations} = getLimits(context);
+      if (
+        maxRepresentations !== undefined &&
+        representations.length > maxRepresentations
+      ) {
+        throw createLimitExceededError(
+          `The batch contains ${representations.length} representations, which exceeds the limit of ${maxRepresentations}`
+        );
+      }
+
+      const scope = getAbortScope(context);
+      // As with `nodes`, errors are returned in place so that an entity whose
+      // id can't be generated doesn't null out the whole list
+      return Promise.all(
+        representations.map((representation: RepresentationObject) =>
+          scope
+            .run(() =>
+              generateEntityId(
+                representation,
+                encode,
+                {signal: scope.signal},
+                idOptions
+              )
+            )
+            .then(
+              (entityId) => ({...representation, id: entityId}),
+              (error) => error
+            )
+        )
+      );
+    },
+    _service: () => ({sdl}),
+  };
+
+  const queryFields = schema.getQueryType()?.getFields() || {};
+  Object.entries(resolvers).forEach(([fieldName, resolve]) => {
+    if (queryFields[fieldName]) {
+      queryFields[fieldName].resolve = resolve;
+    }
+  });
+
+  return schema;
+}
+
+/**
+ * This callback is used to customized the encoding algorithm used when generating the key values of a global identifier
+ *
+ * @callback encoderCallback
+ * @param {string} Keys that need to be encoded
+ * @param {object} options - The options of the request, such as its AbortSignal
+ * @returns {string|Promise<string>} The encoded string
+ */
+
+/**
+ * This callback is used to customized the decoding algorithm used when generating the key values of a global identifier
+ *
+ * @callback decoderCallback
+ * @param {string} Keys that need to be decoded
+ * @param {object} options - The options of the request, such as its AbortSignal
+ * @returns {string|Promise<string>} The decoded string
+ */
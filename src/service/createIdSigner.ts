@@ -0,0 +1,119 @@
+import crypto from 'crypto';
+import {GraphQLError} from 'graphql';
+import {IdSigningOptions} from './types';
+import {createFroidError, INVALID_ID_SIGNATURE} from './froidErrors';
+
+const SIGNATURE_ALGORITHM = 'sha256';
+const SIGNATURE_LENGTH = 16;
+const SIGNATURE_SEPARATOR = '.';
+
+export type IdSigner = {
+  sign: (typename: string, payload: string) => string;
+  unwrap: (payload: string) => {payload: string; signature: string};
+  verify: (typename: string, payload: string, signature: string) => void;
+};
+
+/**
+ * Creates a URL-safe base64 string from a buffer
+ *
+ * @param {Buffer} buffer - The buffer
+ * @returns {string} The URL-safe base64 string, without padding
+ */
+function toBase64Url(buffer: Buffer): string {
+  return buffer
+    .toString('base64')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Creates a truncated HMAC over the type name and encoded payload of an id
+ *
+ * @param {Buffer|string} secret - The secret used to sign
+ * @param {string} typename - The type name of the entity
+ * @param {string} payload - The encoded (and versioned) key values of the entity
+ * @returns {string} The truncated signature
+ */
+function createSignature(
+  secret: Buffer | string,
+  typename: string,
+  payload: string
+): string {
+  return toBase64Url(
+    crypto
+      .createHmac(SIGNATURE_ALGORITHM, secret)
+      .update(`${typename}:${payload}`)
+      .digest()
+      .subarray(0, SIGNATURE_LENGTH)
+  );
+}
+
+/**
+ * Creates the error used to reject ids with a missing or mismatched signature
+ *
+ * @returns {GraphQLError} The error
+ */
+function createInvalidSignatureError(): GraphQLError {
+  return createFroidError('Invalid id signature', INVALID_ID_SIGNATURE);
+}
+
+/**
+ * Creates a signer used to detect tampering with the key values of ids.
+ *
+ * A truncated HMAC over the type name and encoded payload of an id is appended
+ * to the payload, and verified whenever the id is resolved. Signing what is
+ * encoded (rather than the decoded key values) rejects tampered ids before
+ * any decoding work is done.
+ * New ids are always signed with `secret`, while `secret` and any of the
+ * `verificationSecrets` are accepted when verifying, so secrets can be rotated
+ * without invalidating the ids already handed out.
+ *
+ * @param {object} options - Options for configuring the signer
+ * @param {Buffer|string} options.secret - The secret used to sign ids
+ * @param {Array<Buffer|string>} options.verificationSecrets - Additional secrets accepted when verifying ids
+ * @returns {IdSigner} The id signer
+ */
+export function createIdSigner({
+  secret,
+  verificationSecrets = [],
+}: IdSigningOptions): IdSigner {
+  const secrets = [secret, ...verificationSecrets];
+
+  return {
+    sign: (typename, payload) =>
+      [payload, createSignature(secret, typename, payload)].join(
+        SIGNATURE_SEPARATOR
+      ),
+    unwrap: (signedPayload) => {
+      // The signature is URL-safe base64, so it can never contain the separator
+      const separatorIndex = signedPayload.lastIndexOf(SIGNATURE_SEPARATOR);
+
+      if (separatorIndex < 0) {
+        throw createInvalidSignatureError();
+      }
+
+      return {
+        payload: signedPayload.slice(0, separatorIndex),
+        signature: signedPayload.slice(separatorIndex + 1),
+      };
+    },
+    verify: (typename, payload, signature) => {
+      const signatureBuffer = Buffer.from(signature);
+      const isValid = secrets.some((verificationSecret) => {
+        const expected = Buffer.from(
+          createSignature(verificationSecret, typename, payload)
+        );
+
+        return (
+          expected.length === signatureBuffer.length &&
+          crypto.timingSafeEqual(expected, signatureBuffer)
+        );
+      });
+
+      if (!isValid) {
+        throw createInvalidSignatureError();
+      }
+    },
+  };
+}
@@ -0,0 +1,64 @@
+import {DecodeCallback, IdVersioningOptions} from './types';
+import {createFroidError, UNSUPPORTED_ID_VERSION} from './froidErrors';
+
+const VERSION_PATTERN = /^v(\d+):/;
+
+export type IdVersioner = {
+  wrap: (payload: string) => string;
+  unwrap: (
+    payload: string,
+    decode: DecodeCallback
+  ) => {payload: string; decode: DecodeCallback};
+};
+
+/**
+ * Creates a versioner used to tag the payload of ids with their format version.
+ *
+ * New ids are always tagged with the current version (e.g. `v2:<payload>`).
+ * When an id is resolved, its payload is decoded with the decoder registered
+ * for its version, so that ids created with a previous format keep resolving
+ * after the format changes. Untagged payloads (ids created before versioning
+ * was enabled) and payloads tagged with the current version are decoded with
+ * the default decoder, unless a decoder is registered for them (untagged
+ * payloads are registered as version `0`).
+ *
+ * @param {object} options - Options for configuring the versioner
+ * @param {number} options.currentVersion - The version new ids are tagged with
+ * @param {Record<number, DecodeCallback>} options.decoders - Decoders used for the payloads of each version, keyed by version
+ * @returns {IdVersioner} The id versioner
+ */
+export function createIdVersioner({
+  currentVersion,
+  decoders = {},
+}: IdVersioningOptions): IdVersioner {
+  if (!Number.isInteger(currentVersion) || currentVersion < 1) {
+    throw new Error(
+      `Invalid id version "${currentVersion}". Versions must be positive integers.`
+    );
+  }
+
+  return {
+    wrap: (payload) => `v${currentVersion}:${payload}`,
+    unwrap: (versionedPayload, decode) => {
+      const match = VERSION_PATTERN.exec(versionedPayload);
+      const version = match ? Number(match[1]) : 0;
+      const versionDecoder =
+        decoders[version] ||
+        (version === 0 || version === currentVersion ? decode : undefined);
+
+      if (!versionDecoder) {
+        throw createFroidError(
+          `Unsupported id version "${version}"`,
+          UNSUPPORTED_ID_VERSION
+        );
+      }
+
+      return {
+        payload: match
+          ? versionedPayload.slice(match[0].length)
+          : versionedPayload,
+        decode: versionDecoder,
+      };
+    },
+  };
+}
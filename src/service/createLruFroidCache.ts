@@ -0,0 +1,148 @@
+import {FroidCache, FroidOperationPlan} from './types';
+import {createCacheKey} from './createCacheKey';
+import {jsonPlanSerializer} from './createStoreFroidCache';
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+export type LruFroidCacheOptions = {
+  maxEntries?: number;
+  maxBytes?: number;
+  ttlMs?: number;
+};
+
+export type LruFroidCacheStats = {
+  hits: number;
+  misses: number;
+  evictions: number;
+  entries: number;
+  bytes: number;
+};
+
+export type LruFroidCache = FroidCache & {
+  stats: () => LruFroidCacheStats;
+  clear: () => void;
+};
+
+type CacheEntry = {
+  plan: FroidOperationPlan;
+  bytes: number;
+  expiresAt: number;
+};
+
+/**
+ * Validates a numeric cache option
+ *
+ * @param {string} name - The name of the option
+ * @param {number|undefined} value - The value of the option
+ * @returns {void}
+ */
+function assertPositiveInteger(name: string, value: number | undefined): void {
+  if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+    throw new Error(
+      `Invalid ${name} "${value}". It must be a positive integer.`
+    );
+  }
+}
+
+/**
+ * Creates a bounded, least recently used cache of compiled query plans (see
+ * compileOperationPlan) that can be passed to handleFroidRequest as its `cache`
+ * option.
+ *
+ * Plans are keyed on a hash of their query string, so the cache doesn't hold
+ * on to the query strings themselves. The size of each plan is estimated as
+ * the byte length of its JSON serialization (see jsonPlanSerializer). Once the
+ * cache holds `maxEntries` plans, or the estimated size of its plans exceeds
+ * `maxBytes`, the least recently used plans are evicted. Plans older than
+ * `ttlMs` are treated as misses and evicted.
+ *
+ * @param {object} options - Optional options for configuring the cache
+ * @param {number} options.maxEntries - The maximum number of plans to cache
+ * @param {number} options.maxBytes - The maximum total estimated size, in bytes, of the cached plans
+ * @param {number} options.ttlMs - The number of milliseconds plans are cached for
+ * @returns {LruFroidCache} The cache
+ */
+export function createLruFroidCache({
+  maxEntries = DEFAULT_MAX_ENTRIES,
+  maxBytes,
+  ttlMs,
+}: LruFroidCacheOptions = {}): LruFroidCache {
+  assertPositiveInteger('maxEntries', maxEntries);
+  assertPositiveInteger('maxBytes', maxBytes);
+  assertPositiveInteger('ttlMs', ttlMs);
+
+  // Maps iterate in insertion order, so re-inserting an entry when it is used
+  // keeps the least recently used entry first
+  const entries = new Map<string, CacheEntry>();
+  let bytes = 0;
+  let hits = 0;
+  let misses = 0;
+  let evictions = 0;
+
+  const remove = (key: string) => {
+    const entry = entries.get(key);
+
+    if (entry) {
+      entries.delete(key);
+      bytes -= entry.bytes;
+    }
+  };
+
+  const evict = (key: string) => {
+    remove(key);
+    evictions++;
+  };
+
+  return {
+    get: (query: string) => {
+      const key = createCacheKey(query);
+      const entry = entries.get(key);
+
+      if (!entry || entry.expiresAt <= Date.now()) {
+        if (entry) {
+          evict(key);
+        }
+        misses++;
+        return undefined;
+      }
+
+      entries.delete(key);
+      entries.set(key, entry);
+      hits++;
+      return entry.plan;
+    },
+    set: (query: string, plan: FroidOperationPlan) => {
+      const key = createCacheKey(query);
+      const entryBytes = Buffer.byteLength(jsonPlanSerializer.serialize(plan));
+
+      remove(key);
+
+      // Plans that could never fit aren't cached at all
+      if (maxBytes !== undefined && entryBytes > maxBytes) {
+        return;
+      }
+
+      entries.set(key, {
+        plan,
+        bytes: entryBytes,
+        expiresAt: ttlMs !== undefined ? Date.now() + ttlMs : Infinity,
+      });
+      bytes += entryBytes;
+
+      for (const leastRecentlyUsedKey of entries.keys()) {
+        if (
+          entries.size <= maxEntries &&
+          (maxBytes === undefined || bytes <= maxBytes)
+        ) {
+          break;
+        }
+        evict(leastRecentlyUsedKey);
+      }
+    },
+    stats: () => ({hits, misses, evictions, entries: entries.size, bytes}),
+    clear: () => {
+      entries.clear();
+      bytes = 0;
+    },
+  };
+}
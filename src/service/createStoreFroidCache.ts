@@ -0,0 +1,76 @@
+import {
+  FroidCache,
+  FroidCacheSerializer,
+  FroidCacheStore,
+  FroidOperationPlan,
+} from './types';
+import {createCacheKey} from './createCacheKey';
+import {createMemoryFroidCacheStore} from './froidCacheStores';
+
+export type StoreFroidCacheOptions = {
+  store?: FroidCacheStore;
+  serializer?: FroidCacheSerializer;
+};
+
+/**
+ * Leaves the source locations of AST nodes out of serialized plans, without
+ * touching user-named values such as variable defaults or fragments that
+ * happen to be named `loc`
+ *
+ * @param {unknown} this - The object or array holding the value being serialized
+ * @param {string} key - The key of the value being serialized
+ * @param {unknown} value - The value being serialized
+ * @returns {unknown} The value to serialize, if any
+ */
+function omitAstLocations(this: unknown, key: string, value: unknown): unknown {
+  const isAstNode = typeof this === 'object' && this !== null && 'kind' in this;
+
+  return key === 'loc' && isAstNode ? undefined : value;
+}
+
+/**
+ * The default serializer, which stores compiled query plans as JSON. The
+ * source locations of the AST nodes a plan keeps aren't stored, as plans keep
+ * the positions they need to locate errors themselves.
+ */
+export const jsonPlanSerializer: FroidCacheSerializer = {
+  serialize: (plan) => JSON.stringify(plan, omitAstLocations),
+  deserialize: (value) => JSON.parse(value) as FroidOperationPlan,
+};
+
+/**
+ * Creates a FroidCache backed by a store of serialized query plans, which
+ * can be passed to handleFroidRequest as its `cache` option.
+ *
+ * The store may be asynchronous, so that compiled plans can be shared
+ * through an external cache (e.g. across gateway replicas). Plans are
+ * keyed on a hash of their query string. Values that can't be deserialized
+ * are treated as misses.
+ *
+ * @param {object} options - Optional options for configuring the cache
+ * @param {FroidCacheStore} options.store - The store of serialized plans, defaulting to an in-process store
+ * @param {FroidCacheSerializer} options.serializer - The serializer used to store plans, defaulting to JSON
+ * @returns {FroidCache} The cache
+ */
+export function createStoreFroidCache({
+  store = createMemoryFroidCacheStore(),
+  serializer = jsonPlanSerializer,
+}: StoreFroidCacheOptions = {}): FroidCache {
+  return {
+    get: async (query) => {
+      const value = await store.get(createCacheKey(query));
+
+      if (value === undefined) {
+        return undefined;
+      }
+
+      try {
+        return serializer.deserialize(value);
+      } catch {
+        return undefined;
+      }
+    },
+    set: (query, plan) =>
+      store.set(createCacheKey(query), serializer.serialize(plan)),
+  };
+}
@@ -0,0 +1,119 @@
+import {promises as fs} from 'fs';
+import path from 'path';
+import {FroidCacheStore} from './types';
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+export type MemoryFroidCacheStoreOptions = {
+  maxEntries?: number;
+  maxBytes?: number;
+};
+
+export type FileFroidCacheStoreOptions = {
+  directory: string;
+};
+
+/**
+ * Creates a bounded, in-process store for serialized query plans. Once the
+ * store holds `maxEntries` plans, or the byte length of its plans exceeds
+ * `maxBytes`, the least recently used plans are evicted.
+ *
+ * @param {object} options - Optional options for configuring the store
+ * @param {number} options.maxEntries - The maximum number of plans to store
+ * @param {number} options.maxBytes - The maximum total byte length of the stored plans
+ * @returns {FroidCacheStore} The store
+ */
+export function createMemoryFroidCacheStore({
+  maxEntries = DEFAULT_MAX_ENTRIES,
+  maxBytes,
+}: MemoryFroidCacheStoreOptions = {}): FroidCacheStore {
+  // Maps iterate in insertion order, so re-inserting a value when it is used
+  // keeps the least recently used value first
+  const values = new Map<string, string>();
+  let bytes = 0;
+
+  const remove = (key: string) => {
+    const value = values.get(key);
+
+    if (value !== undefined) {
+      values.delete(key);
+      bytes -= Buffer.byteLength(value);
+    }
+  };
+
+  return {
+    get: (key) => {
+      const value = values.get(key);
+
+      if (value !== undefined) {
+        values.delete(key);
+        values.set(key, value);
+      }
+
+      return value;
+    },
+    set: (key, value) => {
+      const valueBytes = Buffer.byteLength(value);
+
+      remove(key);
+
+      // Plans that could never fit aren't stored at all
+      if (maxBytes !== undefined && valueBytes > maxBytes) {
+        return;
+      }
+
+      values.set(key, value);
+      bytes += valueBytes;
+
+      for (const leastRecentlyUsedKey of values.keys()) {
+        if (
+          values.size <= maxEntries &&
+          (maxBytes === undefined || bytes <= maxBytes)
+        ) {
+          break;
+        }
+        remove(leastRecentlyUsedKey);
+      }
+    },
+  };
+}
+
+/**
+ * Creates a store that keeps each serialized query plan in its own file
+ * within a directory, e.g. to share compiled plans between processes on the
+ * same machine or to inspect them locally.
+ *
+ * @param {object} options - Options for configuring the store
+ * @param {string} options.directory - The directory the plans are stored in. It is created if it doesn't exist
+ * @returns {FroidCacheStore} The store
+ */
+export function createFileFroidCacheStore({
+  directory,
+}: FileFroidCacheStoreOptions): FroidCacheStore {
+  // Cache keys are hex encoded hashes, so they are always safe file names
+  const getFilePath = (key: string) => path.join(directory, `${key}.json`);
+  let writes = 0;
+
+  return {
+    get: async (key) => {
+      try {
+        return await fs.readFile(getFilePath(key), 'utf8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return undefined;
+        }
+        throw error;
+      }
+    },
+    set: async (key, value) => {
+      await fs.mkdir(directory, {recursive: true});
+      // Write to a temporary file first so readers never see a partial plan.
+      // Writes aren't awaited by requests, so each one gets its own file even
+      // when the same plan is stored concurrently.
+      const writeId = `${process.pid}.${writes++}`;
+      const temporaryFilePath = `${getFilePath(key)}.${writeId}.tmp`;
+      await fs.writeFile(temporaryFilePath, value, 'utf8');
+      await fs.rename(temporaryFilePath, getFilePath(key));
+    },
+  };
+}
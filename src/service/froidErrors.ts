@@ -0,0 +1,243 @@
+import crypto from 'crypto';
+import {GraphQLError} from 'graphql';
+import {ErrorRedactionOptions, RedactionMode} from './types';
+
+export const MISSING_ID = 'MISSING_ID';
+export const INVALID_ID_FORMAT = 'INVALID_ID_FORMAT';
+export const ENCODE_FAILED = 'ENCODE_FAILED';
+export const DECODE_FAILED = 'DECODE_FAILED';
+export const QUERY_PARSE_ERROR = 'QUERY_PARSE_ERROR';
+export const QUERY_VALIDATION_ERROR = 'QUERY_VALIDATION_ERROR';
+export const REQUEST_ABORTED = 'REQUEST_ABORTED';
+export const REQUEST_TIMEOUT = 'REQUEST_TIMEOUT';
+export const LIMIT_EXCEEDED = 'LIMIT_EXCEEDED';
+export const UNKNOWN_TYPE = 'UNKNOWN_TYPE';
+export const INVALID_ID_TYPE = 'INVALID_ID_TYPE';
+export const INVALID_ID_KEY = 'INVALID_ID_KEY';
+export const INVALID_ID_SIGNATURE = 'INVALID_ID_SIGNATURE';
+export const UNSUPPORTED_ID_VERSION = 'UNSUPPORTED_ID_VERSION';
+
+const DEFAULT_TRUNCATE_LENGTH = 16;
+const HASH_LENGTH = 16;
+
+// Errors with these codes didn't carry any extensions in the legacy format
+const STRUCTURED_ERROR_CODES = new Set([
+  MISSING_ID,
+  INVALID_ID_FORMAT,
+  UNKNOWN_TYPE,
+  ENCODE_FAILED,
+  DECODE_FAILED,
+  QUERY_PARSE_ERROR,
+  QUERY_VALIDATION_ERROR,
+  REQUEST_ABORTED,
+  REQUEST_TIMEOUT,
+  LIMIT_EXCEEDED,
+]);
+
+export type FroidErrorOptions = {
+  fallbackMessage: string;
+  code: string;
+  path?: Array<string | number>;
+  query?: string;
+  id?: unknown;
+  legacyErrorFormat?: boolean;
+  redaction?: ErrorRedaction;
+};
+
+export type ErrorRedaction = {
+  query: RedactionMode;
+  id: RedactionMode;
+  truncateLength: number;
+  hashSecret?: string;
+};
+
+/**
+ * Resolves how the query and ids echoed back in errors are redacted. By
+ * default both are omitted, while debug mode keeps them verbatim.
+ *
+ * @param {ErrorRedactionOptions} redaction - The configured redaction options
+ * @param {boolean} debug - Whether to keep the query and ids verbatim
+ * @returns {ErrorRedaction} The redaction to apply
+ */
+export function resolveErrorRedaction(
+  redaction: ErrorRedactionOptions = {},
+  debug = false
+): ErrorRedaction {
+  return {
+    query: debug ? 'keep' : redaction.query || 'omit',
+    id: debug ? 'keep' : redaction.id || 'omit',
+    truncateLength: redaction.truncateLength ?? DEFAULT_TRUNCATE_LENGTH,
+    hashSecret: redaction.hashSecret,
+  };
+}
+
+/**
+ * Redacts a value echoed back in an error. Hashed values are keyed with the
+ * configured secret so they can't be brute-forced back to their key values,
+ * and are omitted when no secret is configured.
+ *
+ * @param {unknown} value - The value
+ * @param {RedactionMode} mode - How to redact the value
+ * @param {number} truncateLength - The number of characters kept when truncating
+ * @param {string} hashSecret - The secret hashed values are keyed with, if any
+ * @returns {unknown} The redacted value, or `undefined` if it is omitted
+ */
+export function redactValue(
+  value: unknown,
+  mode: RedactionMode,
+  truncateLength: number,
+  hashSecret?: string
+): unknown {
+  if (mode === 'omit' || (mode === 'hash' && !hashSecret)) {
+    return undefined;
+  }
+
+  // Only strings can carry sensitive values (e.g. key values or a query)
+  if (mode === 'keep' || typeof value !== 'string') {
+    return value;
+  }
+
+  if (mode === 'truncate') {
+    return value.length > truncateLength
+      ? `${value.slice(0, truncateLength)}...`
+      : value;
+  }
+
+  return `hmac-sha256:${crypto
+    .createHmac('sha256', hashSecret as string)
+    .update(value)
+    .digest('hex')
+    .slice(0, HASH_LENGTH)}`;
+}
+
+/**
+ * Creates an error carrying an error `code` in its extensions
+ *
+ * @param {string} message - The error message
+ * @param {string} code - The error code
+ * @param {unknown} originalError - The error that caused this error, if any
+ * @returns {GraphQLError} The error
+ */
+export function createFroidError(
+  message: string,
+  code: string,
+  originalError?: unknown
+): GraphQLError {
+  return new GraphQLError(message, {
+    extensions: {code},
+    ...(originalError instanceof Error ? {originalError} : {}),
+  });
+}
+
+/**
+ * Gets the error `code` of an error, if it has one
+ *
+ * @param {unknown} error - The error
+ * @returns {string|undefined} The error code
+ */
+export function getErrorCode(error: unknown): string | undefined {
+  return error instanceof GraphQLError &&
+    typeof error.extensions.code === 'string'
+    ? error.extensions.code
+    : undefined;
+}
+
+/**
+ * Gives an error that doesn't have an error `code` yet the code of the step
+ * that failed, keeping its message
+ *
+ * @param {unknown} error - The error
+ * @param {string} code - The error code to use if the error doesn't have one
+ * @returns {unknown} The error, with an error code
+ */
+export function withErrorCode(error: unknown, code: string): unknown {
+  if (getErrorCode(error)) {
+    return error;
+  }
+
+  return createFroidError(
+    // @ts-ignore we protect against message property not existing and provide a fallback instead
+    (typeof error === 'object' && error?.message) || String(error),
+    code,
+    error
+  );
+}
+
+/**
+ * Formats an error for the `errors` of a FROID response.
+ *
+ * Errors are formatted following the GraphQL spec, with their error `code`
+ * (and the query and id that failed to resolve, if any) in their
+ * `extensions`. The legacy format instead echoes the query and id back at the
+ * top level, and only includes the extensions of errors that had some before
+ * error codes were introduced. In both formats, the query and id are redacted
+ * as configured (see resolveErrorRedaction).
+ *
+ * @param {unknown} error - The error
+ * @param {object} options - Options for formatting the error
+ * @param {string} options.fallbackMessage - The message to use if the error doesn't have one
+ * @param {string} options.code - The error code to use if the error doesn't have one
+ * @param {Array<string|number>} options.path - The path of the response field the error is for, if any
+ * @param {string} options.query - The query document being executed, if any
+ * @param {unknown} options.id - The id that failed to resolve, if any
+ * @param {boolean} options.legacyErrorFormat - Whether to use the legacy error format
+ * @param {ErrorRedaction} options.redaction - How to redact the query and id
+ * @returns {object} The formatted error
+ */
+export function formatError(
+  error: unknown,
+  {
+    fallbackMessage,
+    code,
+    path,
+    query: rawQuery,
+    id: rawId,
+    legacyErrorFormat,
+    redaction = resolveErrorRedaction(),
+  }: FroidErrorOptions
+): Record<string, unknown> {
+  const query = redactValue(
+    rawQuery,
+    redaction.query,
+    redaction.truncateLength,
+    redaction.hashSecret
+  );
+  const id = redactValue(
+    rawId,
+    redaction.id,
+    redaction.truncateLength,
+    redaction.hashSecret
+  );
+  const message =
+    // @ts-ignore we protect against message property not existing and provide a fallback instead
+    (typeof error === 'object' && error?.message) || fallbackMessage;
+  const extensions = error instanceof GraphQLError ? error.extensions : {};
+  const errorCode = getErrorCode(error);
+
+  if (legacyErrorFormat) {
+    return {
+      message,
+      ...(query !== undefined ? {query} : {}),
+      ...(id !== undefined ? {id} : {}),
+      ...(path ? {path} : {}),
+      ...(Object.keys(extensions).length &&
+      !(errorCode && STRUCTURED_ERROR_CODES.has(errorCode))
+        ? {extensions}
+        : {}),
+    };
+  }
+
+  const locations = error instanceof GraphQLError ? error.locations : undefined;
+
+  return {
+    message,
+    ...(locations ? {locations} : {}),
+    ...(path ? {path} : {}),
+    extensions: {
+      ...extensions,
+      code: errorCode || code,
+      ...(query !== undefined ? {query} : {}),
+      ...(id !== undefined ? {id} : {}),
+    },
+  };
+}
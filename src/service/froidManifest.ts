@@ -0,0 +1,419 @@
+import {GraphQLError} from 'graphql';
+import {createFroidError, INVALID_ID_KEY, INVALID_ID_TYPE} from './froidErrors';
+import {
+  FroidManifest,
+  FroidManifestKeyField,
+  FroidManifestNode,
+} from '../schema/types';
+import {Key} from '../schema/Key';
+import {KeyField} from '../schema/KeyField';
+import {TYPENAME_FIELD_NAME} from '../schema/constants';
+
+export type IndexedManifestNode = FroidManifestNode;
+
+export type FroidManifestNodes = Map<string, IndexedManifestNode>;
+
+const indexedManifests = new WeakMap<FroidManifest, FroidManifestNodes>();
+
+/**
+ * Converts parsed key fields into manifest key fields (without types)
+ *
+ * @param {KeyField[]} keyFields - The parsed key fields
+ * @returns {FroidManifestKeyField[]} The manifest key fields
+ */
+function toManifestKeyFields(keyFields: KeyField[]): FroidManifestKeyField[] {
+  return keyFields.map(({name, selections}) => ({
+    name,
+    ...(selections.length ? {fields: toManifestKeyFields(selections)} : {}),
+  }));
+}
+
+/**
+ * Indexes the nodes of a FROID manifest by their type name. Nodes that only
+ * list their selected key as a fields string have it parsed into key fields.
+ * Manifests are only indexed once, so the same manifest object can be passed
+ * with every request.
+ *
+ * @param {FroidManifest} manifest - The FROID manifest (see FroidSchema.toManifest)
+ * @returns {FroidManifestNodes} The manifest nodes, keyed by their type name
+ */
+export function indexManifestNodes(
+  manifest: FroidManifest
+): FroidManifestNodes {
+  const indexedNodes = indexedManifests.get(manifest);
+  if (indexedNodes) {
+    return indexedNodes;
+  }
+
+  const manifestNodes: FroidManifestNodes = new Map(
+    manifest.nodes.map((node) => [
+      node.typename,
+      {
+        ...node,
+        ...(!node.keyFields && node.key
+          ? {
+              keyFields: toManifestKeyFields(
+                new Key(node.typename, node.key).fields
+              ),
+            }
+          : {}),
+      },
+    ])
+  );
+  indexedManifests.set(manifest, manifestNodes);
+  return manifestNodes;
+}
+
+/**
+ * Gets the manifest node of the type an id was generated for, rejecting ids
+ * for types that aren't nodes of the FROID schema.
+ *
+ * @param {FroidManifestNodes} manifestNodes - The indexed manifest nodes
+ * @param {string} typename - The type name the id was generated for
+ * @returns {IndexedManifestNode} The manifest node
+ */
+export function getManifestNode(
+  manifestNodes: FroidManifestNodes,
+  typename: string
+): IndexedManifestNode {
+  const node = manifestNodes.get(typename);
+
+  if (!node) {
+    throw createFroidError(`Invalid id type "${typename}"`, INVALID_ID_TYPE);
+  }
+
+  return node;
+}
+
+/**
+ * Creates the error used to reject key values that don't match a node's key
+ *
+ * @param {string} typename - The type name of the node
+ * @param {string} message - Describes what is wrong with the key values
+ * @returns {GraphQLError} The error
+ */
+function createInvalidKeyError(
+  typename: string,
+  message: string
+): GraphQLError {
+  return createFroidError(
+    `Invalid key for type "${typename}": ${message}`,
+    INVALID_ID_KEY
+  );
+}
+
+/**
+ * Determines whether a value is a plain (non-null, non-array) object
+ *
+ * @param {unknown} value - The value
+ * @returns {boolean} Whether or not the value is a plain object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Determines whether a key value matches a named (non-wrapping) type. Values
+ * of custom scalars and enums can't be checked beyond not being objects.
+ *
+ * @param {string} namedType - The name of the type
+ * @param {unknown} value - The key value
+ * @returns {boolean} Whether or not the value matches the type
+ */
+function matchesNamedType(namedType: string, value: unknown): boolean {
+  switch (namedType) {
+    case 'Int':
+      return Number.isInteger(value);
+    case 'Float':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'String':
+      return typeof value === 'string';
+    case 'Boolean':
+      return typeof value === 'boolean';
+    case 'ID':
+      return typeof value === 'string' || Number.isInteger(value);
+    default:
+      return typeof value !== 'object';
+  }
+}
+
+/**
+ * Determines whether a key value matches a printed type (e.g. `[String!]!`)
+ *
+ * @param {string} type - The printed type
+ * @param {unknown} value - The key value
+ * @returns {boolean} Whether or not the value matches the type
+ */
+function matchesType(type: string, value: unknown): boolean {
+  const isNonNull = type.endsWith('!');
+  const nullableType = isNonNull ? type.slice(0, -1) : type;
+
+  if (value === null) {
+    return !isNonNull;
+  }
+
+  if (nullableType.startsWith('[') && nullableType.endsWith(']')) {
+    const itemType = nullableType.slice(1, -1);
+    return (
+      Array.isArray(value) && value.every((item) => matchesType(itemType, item))
+    );
+  }
+
+  return matchesNamedType(nullableType, value);
+}
+
+/**
+ * Recursively validates key values against key fields
+ *
+ * @param {string} typename - The type name of the node
+ * @param {Record<string, unknown>} values - The key values at the current level
+ * @param {FroidManifestKeyField[]} keyFields - The key fields at the current level
+ * @param {string[]} path - The path to the current level
+ * @param {boolean} strict - Whether to reject fields that aren't part of the key
+ * @returns {void}
+ */
+function validateKeyFields(
+  typename: string,
+  values: Record<string, unknown>,
+  keyFields: FroidManifestKeyField[],
+  path: string[],
+  strict: boolean
+): void {
+  keyFields.forEach(({name, type, fields}) => {
+    const fieldPath = [...path, name].join('.');
+    const value = values[name];
+
+    if (value === undefined) {
+      throw createInvalidKeyError(typename, `missing field "${fieldPath}"`);
+    }
+
+    if (fields?.length) {
+      if (!isObject(value)) {
+        throw createInvalidKeyError(
+          typename,
+          `expected field "${fieldPath}" to be an object`
+        );
+      }
+      validateKeyFields(typename, value, fields, [...path, name], strict);
+      return;
+    }
+
+    if (type) {
+      if (!matchesType(type, value)) {
+        throw createInvalidKeyError(
+          typename,
+          `expected field "${fieldPath}" to be of type "${type}"`
+        );
+      }
+      return;
+    }
+
+    if (typeof value === 'object' && value !== null) {
+      throw createInvalidKeyError(
+        typename,
+        `expected field "${fieldPath}" to be a scalar value`
+      );
+    }
+  });
+
+  if (!strict) {
+    return;
+  }
+
+  Object.keys(values).forEach((name) => {
+    // Nested key values may carry the type name of the object they belong to
+    if (
+      (path.length && name === TYPENAME_FIELD_NAME) ||
+      keyFields.some((keyField) => keyField.name === name)
+    ) {
+      return;
+    }
+    throw createInvalidKeyError(
+      typename,
+      `unexpected field "${[...path, name].join('.')}"`
+    );
+  });
+}
+
+/**
+ * Validates the key values decoded from an id against the key selected for
+ * its type, reporting exactly which field is missing or of the wrong shape.
+ *
+ * Ids issued from representations sent with extra fields carry those fields
+ * in their key values, so fields that aren't part of the key are only
+ * rejected in strict mode.
+ *
+ * @param {IndexedManifestNode} node - The manifest node of the id's type
+ * @param {unknown} keys - The decoded key values
+ * @param {boolean} strict - Whether to reject fields that aren't part of the key
+ * @returns {void}
+ */
+export function validateKeyValues(
+  node: IndexedManifestNode,
+  keys: unknown,
+  strict = false
+): void {
+  if (!node.keyFields) {
+    return;
+  }
+
+  if (!isObject(keys)) {
+    throw createInvalidKeyError(node.typename, 'expected an object');
+  }
+
+  validateKeyFields(node.typename, keys, node.keyFields, [], strict);
+}
+
+/**
+ * Recursively selects the values of key fields, dropping any other values
+ *
+ * @param {string} typename - The type name of the node
+ * @param {Record<string, unknown>} values - The values at the current level
+ * @param {FroidManifestKeyField[]} keyFields - The key fields at the current level
+ * @param {string[]} path - The path to the current level
+ * @returns {Record<string, unknown>} The values of the key fields
+ */
+function selectKeyFields(
+  typename: string,
+  values: Record<string, unknown>,
+  keyFields: FroidManifestKeyField[],
+  path: string[]
+): Record<string, unknown> {
+  return keyFields.reduce<Record<string, unknown>>(
+    (selected, {name, fields}) => {
+      const fieldPath = [...path, name];
+      const value = values[name];
+
+      if (value === undefined) {
+        throw createInvalidKeyError(
+          typename,
+          `missing field "${fieldPath.join('.')}"`
+        );
+      }
+
+      if (fields?.length) {
+        if (!isObject(value)) {
+          throw createInvalidKeyError(
+            typename,
+            `expected field "${fieldPath.join('.')}" to be an object`
+          );
+        }
+        selected[name] = {
+          // Nested key values keep the type name of the object they belong to
+          ...(value[TYPENAME_FIELD_NAME] !== undefined
+            ? {[TYPENAME_FIELD_NAME]: value[TYPENAME_FIELD_NAME]}
+            : {}),
+          ...selectKeyFields(typename, value, fields, fieldPath),
+        };
+      } else {
+        selected[name] = value;
+      }
+
+      return selected;
+    },
+    {}
+  );
+}
+
+/**
+ * Projects the key values of an entity representation down to the key
+ * selected for its type, so that the same entity always gets the same id no
+ * matter which of its keys (or extra fields) the representation was sent with.
+ *
+ * @param {IndexedManifestNode} node - The manifest node of the entity's type
+ * @param {Record<string, unknown>} values - The key values of the representation
+ * @returns {Record<string, unknown>} The values of the selected key's fields
+ */
+export function selectKeyValues(
+  node: IndexedManifestNode,
+  values: Record<string, unknown>
+): Record<string, unknown> {
+  if (!node.keyFields) {
+    return values;
+  }
+
+  return selectKeyFields(node.typename, values, node.keyFields, []);
+}
+
+/**
+ * Validates the key fields of a loaded manifest node
+ *
+ * @param {unknown} keyFields - The key fields
+ * @param {string} path - The path of the key fields in the manifest
+ * @returns {void}
+ */
+function assertManifestKeyFields(keyFields: unknown, path: string): void {
+  if (!Array.isArray(keyFields)) {
+    throw new Error(`Invalid FROID manifest: "${path}" must be an array.`);
+  }
+
+  keyFields.forEach((keyField, index) => {
+    const fieldPath = `${path}[${index}]`;
+
+    if (!isObject(keyField) || typeof keyField.name !== 'string') {
+      throw new Error(
+        `Invalid FROID manifest: "${fieldPath}.name" must be a string.`
+      );
+    }
+    if (keyField.type !== undefined && typeof keyField.type !== 'string') {
+      throw new Error(
+        `Invalid FROID manifest: "${fieldPath}.type" must be a string.`
+      );
+    }
+    if (keyField.fields !== undefined) {
+      assertManifestKeyFields(keyField.fields, `${fieldPath}.fields`);
+    }
+  });
+}
+
+/**
+ * Loads a FROID manifest generated at build time (see FroidSchema.toManifest),
+ * so it can be passed to handleFroidRequest as the `manifest` option.
+ *
+ * @param {string|unknown} source - The manifest, as JSON or as an already parsed value
+ * @returns {FroidManifest} The validated FROID manifest
+ */
+export function loadFroidManifest(source: string | unknown): FroidManifest {
+  let manifest: unknown = source;
+
+  if (typeof source === 'string') {
+    try {
+      manifest = JSON.parse(source);
+    } catch {
+      throw new Error('Invalid FROID manifest: expected valid JSON.');
+    }
+  }
+
+  if (!isObject(manifest) || !Array.isArray(manifest.nodes)) {
+    throw new Error('Invalid FROID manifest: "nodes" must be an array.');
+  }
+
+  manifest.nodes.forEach((node, index) => {
+    const nodePath = `nodes[${index}]`;
+
+    if (!isObject(node) || typeof node.typename !== 'string') {
+      throw new Error(
+        `Invalid FROID manifest: "${nodePath}.typename" must be a string.`
+      );
+    }
+    if (node.key !== undefined && typeof node.key !== 'string') {
+      throw new Error(
+        `Invalid FROID manifest: "${nodePath}.key" must be a string.`
+      );
+    }
+    if (node.keyFields !== undefined) {
+      assertManifestKeyFields(node.keyFields, `${nodePath}.keyFields`);
+    }
+    if (
+      node.tags !== undefined &&
+      (!Array.isArray(node.tags) ||
+        node.tags.some((tag) => typeof tag !== 'string'))
+    ) {
+      throw new Error(
+        `Invalid FROID manifest: "${nodePath}.tags" must be an array of strings.`
+      );
+    }
+  });
+
+  return manifest as FroidManifest;
+}
@@ -1,8 +1,49 @@
-import {toGlobalId} from 'graphql-relay';
-import {RepresentationObject, GraphQLResponse, EncodeCallback} from './types';
+import {
+  RepresentationObject,
+  GraphQLResponse,
+  EncodeCallback,
+  CallbackOptions,
+  IdSigningOptions,
+  IdCodec,
+  IdVersioningOptions,
+  FroidRequestLimits,
+} from './types';
+import {createAbortScope} from './createAbortScope';
+import {createIdSigner, IdSigner} from './createIdSigner';
+import {relayIdCodec} from './relayIdCodec';
+import {createIdVersioner, IdVersioner} from './createIdVersioner';
+import {
+  FroidManifestNodes,
+  getManifestNode,
+  indexManifestNodes,
+  selectKeyValues,
+} from './froidManifest';
+import {FroidManifest} from '../schema/types';
+import {canonicalizeJson} from './canonicalizeJson';
+import {ENCODE_FAILED, formatError, withErrorCode} from './froidErrors';
+import {createLimitExceededError} from './requestLimits';
 
 export type GenerateEntityObjectsWithIdOptions = {
   encode?: EncodeCallback;
+  signing?: IdSigningOptions;
+  idCodec?: IdCodec;
+  versioning?: IdVersioningOptions;
+  manifest?: FroidManifest;
+  normalizeRepresentations?: boolean;
+  legacyKeySerialization?: boolean;
+  legacyErrorFormat?: boolean;
+  limits?: FroidRequestLimits;
+  signal?: AbortSignal;
+  timeout?: number;
+};
+
+export type EntityIdOptions = {
+  signer?: IdSigner;
+  idCodec?: IdCodec;
+  versioner?: IdVersioner;
+  manifestNodes?: FroidManifestNodes;
+  normalizeRepresentations?: boolean;
+  legacyKeySerialization?: boolean;
 };
 
 export type GenerateEntityObjectWithIdArguments = {
@@ -10,7 +51,8 @@ export type GenerateEntityObjectWithIdArguments = {
 };
 
 /**
- * Recursively sorts the keys of an object
+ * Recursively sorts the keys of an object. This is the legacy serialization
+ * of key values, which turns arrays into objects keyed by their indexes.
  *
  * @param {Record<string, any>} unordered - An object
  * @returns {Record<string, any>} An object with determinisitcally sorted keys
@@ -22,7 +64,7 @@ function sortKeys(unordered: Record<string, any>) {
       obj[key] = unordered[key];
 
       // sort child keys if the key value is an object
-      if (typeof obj[key] === 'object') {
+      if (typeof obj[key] === 'object' && obj[key] !== null) {
         obj[key] = sortKeys(obj[key]);
       }
 
@@ -32,6 +74,69 @@ function sortKeys(unordered: Record<string, any>) {
   return ordered;
 }
 
+/**
+ * Generates a relay-spec compliant global identifier for an entity representation
+ *
+ * @param {object} representation - The entity representation, made up of its `__typename` and @key fields
+ * @param {encoderCallback} encode - Encoding method used to generate the key arguments
+ * @param {object} options - Optional options passed through to the encoding method
+ * @param {AbortSignal} options.signal - Signal used to abort the request
+ * @param {object} idOptions - Optional options for configuring the id
+ * @param {IdSigner} idOptions.signer - Signer used to sign the id, if ids are signed
+ * @param {IdCodec} idOptions.idCodec - Codec used to serialize the id
+ * @param {IdVersioner} idOptions.versioner - Versioner used to tag the id with the current format version, if ids are versioned
+ * @param {FroidManifestNodes} idOptions.manifestNodes - The node types of the FROID schema and their selected keys
+ * @param {boolean} idOptions.normalizeRepresentations - Whether to project the representation down to the selected key of its type
+ * @param {boolean} idOptions.legacyKeySerialization - Whether to serialize the key values the way ids were generated before canonical JSON was used
+ * @returns {Promise<string>} Promise representing the global identifier
+ */
+export async function generateEntityId(
+  representation: RepresentationObject,
+  encode: EncodeCallback,
+  options: CallbackOptions = {},
+  {
+    signer,
+    idCodec = relayIdCodec,
+    versioner,
+    manifestNodes,
+    normalizeRepresentations,
+    legacyKeySerialization,
+  }: EntityIdOptions = {}
+): Promise<string> {
+  // Extract out the type name from the rest of the arguments
+  // We will be left with only the @key fields for a federated entity
+  const {__typename, ...representationKeys} = representation;
+
+  // The representation may have been sent with any of the entity's keys (or
+  // with extra fields), so only keep the fields of the selected key
+  const keys =
+    normalizeRepresentations && manifestNodes
+      ? selectKeyValues(
+          getManifestNode(manifestNodes, __typename),
+          representationKeys
+        )
+      : representationKeys;
+
+  // Generate a deterministic string we can use to generate a relay-spec
+  // compliant global identifier
+  const keyValue = legacyKeySerialization
+    ? JSON.stringify(sortKeys(keys))
+    : canonicalizeJson(keys);
+
+  let encodedKeyValue: string;
+  try {
+    encodedKeyValue = await encode(keyValue, options);
+  } catch (error) {
+    throw withErrorCode(error, ENCODE_FAILED);
+  }
+  const payload = versioner ? versioner.wrap(encodedKeyValue) : encodedKeyValue;
+
+  return idCodec.serialize(
+    __typename,
+    signer ? signer.sign(__typename, payload) : payload
+  );
+}
+
 /**
  * Generates a Relay-spec complient Entity Object with an `id` field
  *
@@ -39,46 +144,117 @@ function sortKeys(unordered: Record<string, any>) {
  * @param {object[]} object.representations - List of entity objects that we need to generate relay-spec compliant `id` values for
  * @param {object} options - Optional options for configuring generateEntityObjectWithId
  * @param {encoderCallback} options.encode - Encoding method used to generate the key arguments
+ * @param {IdSigningOptions} options.signing - Secrets used to sign ids, so that tampering with their key values can be detected
+ * @param {IdCodec} options.idCodec - Codec used to serialize ids, defaulting to relay-spec compliant global identifiers
+ * @param {IdVersioningOptions} options.versioning - The format version to tag ids with
+ * @param {FroidManifest} options.manifest - The FROID manifest (see FroidSchema.toManifest), used to normalize representations
+ * @param {boolean} options.normalizeRepresentations - Whether to project each representation down to the selected key of its type before generating its id
+ * @param {boolean} options.legacyKeySerialization - Whether to keep serializing key values the way ids were generated before canonical JSON (RFC 8785) was used
+ * @param {boolean} options.legacyErrorFormat - Whether to format errors the way they were formatted before they carried error codes
+ * @param {FroidRequestLimits} options.limits - Limits on the number of representations in a batch
+ * @param {AbortSignal} options.signal - Signal used to abort the request
+ * @param {number} options.timeout - The number of milliseconds the request is allowed to take
  * @returns {Promise<Array.<object>>} Promise representing the list of entity objects with a relay-spec compliant `id` value
  */
-export function generateEntityObjectWithId(
+export async function generateEntityObjectWithId(
   {representations}: GenerateEntityObjectWithIdArguments,
   options?: GenerateEntityObjectsWithIdOptions
 ): Promise<GraphQLResponse> {
   const encode = options?.encode || ((value) => value);
+  const signer = options?.signing && createIdSigner(options.signing);
+  const versioner =
+    options?.versioning && createIdVersioner(options.versioning);
 
-  // Need to return a promise to the gateway to simulate an async request
-  // The resolved result needs to look like a valid GraphQL JSON response
-  // as if we have queried a real subgraph, so we start with a `data` property
-  // that continues the data requested as outlined inline below.
-  return Promise.resolve({
-    data: {
-      // return a set of _entities. For more information on this field and how
-      // federation across subgraphs work, please see
-      // https://www.apollographql.com/docs/federation/entities/#the-query-plan
-      //
-      // To generate this, we need to iterate over each `representation`, which represents
-      // a federated entity in our graph. For each of these, this service is
-      // responsible for generating and returning the `id` for that extended entity
-      _entities: representations.map((representation) => {
-        // Extract out the type name from the rest of the arguments
-        // We will be left with only the @key fields for a federated entity
-        const {__typename, ...keys} = representation;
-
-        // sort keys to ensure id value is deterministic
-        const sortedKeys = sortKeys(keys);
-
-        // Generate a string we can use to generate a relay-spec compliant global identifier
-        const keyValue = JSON.stringify(sortedKeys);
+  if (options?.normalizeRepresentations && !options.manifest) {
+    throw new Error(
+      'A manifest must be provided to normalize entity representations.'
+    );
+  }
+
+  // Reject batches with more representations than allowed before encoding
+  // any of them
+  const maxRepresentations = options?.limits?.maxRepresentations;
 
+  if (
+    maxRepresentations !== undefined &&
+    representations.length > maxRepresentations
+  ) {
+    return {
+      data: null,
+      errors: [
+        formatError(
+          createLimitExceededError(
+            `The batch contains ${representations.length} representations, which exceeds the limit of ${maxRepresentations}`
+          ),
+          {
+            fallbackMessage: 'Error generating entity ids',
+            code: ENCODE_FAILED,
+            legacyErrorFormat: options?.legacyErrorFormat,
+          }
+        ),
+      ],
+    };
+  }
+
+  const manifestNodes =
+    options?.manifest && indexManifestNodes(options.manifest);
+  const scope = createAbortScope(options);
+  const errors: object[] = [];
+
+  // To generate the `_entities`, we need to iterate over each `representation`,
+  // which represents a federated entity in our graph. For each of these, this
+  // service is responsible for generating and returning the `id` for that
+  // extended entity. For more information on this field and how federation
+  // across subgraphs work, please see
+  // https://www.apollographql.com/docs/federation/entities/#the-query-plan
+  //
+  // The ids are generated concurrently, and an entity whose id can't be
+  // generated is nulled out so that the rest of the entities still resolve
+  const entities = await Promise.all(
+    representations.map(async (representation, index) => {
+      try {
         // Return the `id` field for the type provided
         return {
-          __typename,
-          id: toGlobalId(__typename, encode(keyValue)),
+          __typename: representation.__typename,
+          id: await scope.run(() =>
+            generateEntityId(
+              representation,
+              encode,
+              {signal: scope.signal},
+              {
+                signer,
+                idCodec: options?.idCodec,
+                versioner,
+                manifestNodes,
+                normalizeRepresentations: options?.normalizeRepresentations,
+                legacyKeySerialization: options?.legacyKeySerialization,
+              }
+            )
+          ),
         };
-      }),
-    },
-  });
+      } catch (error) {
+        errors[index] = formatError(error, {
+          fallbackMessage: 'Error generating entity id',
+          code: ENCODE_FAILED,
+          path: ['_entities', index],
+          legacyErrorFormat: options?.legacyErrorFormat,
+        });
+        return null;
+      }
+    })
+  ).finally(scope.dispose);
+
+  // The resolved result needs to look like a valid GraphQL JSON response
+  // as if we have queried a real subgraph, so we start with a `data` property
+  // that contains the data requested as outlined above.
+  const response: GraphQLResponse = {data: {_entities: entities}};
+  const entityErrors = errors.filter(Boolean);
+
+  if (entityErrors.length) {
+    response.errors = entityErrors;
+  }
+
+  return response;
 }
 
 /**
@@ -86,5 +262,6 @@ export function generateEntityObjectWithId(
  *
  * @callback encoderCallback
  * @param {string} Keys that need to be encoded
- * @returns {string} The encoded string
+ * @param {object} options - The options of the request, such as its AbortSignal
+ * @returns {string|Promise<string>} The encoded string
  */
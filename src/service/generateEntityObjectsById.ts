@@ -1,149 +1,779 @@
-import {StringValueNode} from 'graphql/language/ast';
-import {Kind} from 'graphql/language/kinds';
-import {GraphQLError, parse, visit} from 'graphql';
-import {fromGlobalId} from 'graphql-relay';
-import {FroidCache, DecodeCallback, GraphQLResponse} from './types';
+import {
+  DocumentNode,
+  FragmentDefinitionNode,
+  SelectionSetNode,
+} from 'graphql/language/ast';
+import {GraphQLError, Kind, OperationTypeNode, parse, print} from 'graphql';
+import {
+  FroidCache,
+  DecodeCallback,
+  GraphQLResponse,
+  CallbackOptions,
+  IdSigningOptions,
+  IdCodec,
+  IdVersioningOptions,
+  ErrorRedactionOptions,
+  FroidRequestLimits,
+  FroidOperationPlan,
+  FroidPlanField,
+} from './types';
+import {collectFields, mergeSelectionSets} from './collectFields';
+import {
+  collectPlanFields,
+  compileOperationPlan,
+  getOperation,
+  getVariableValues,
+  isOperationPlan,
+  resolvePlanValue,
+} from './operationPlan';
+import {AbortScope, createAbortScope} from './createAbortScope';
+import {createIdSigner, IdSigner} from './createIdSigner';
+import {relayIdCodec} from './relayIdCodec';
+import {createIdVersioner, IdVersioner} from './createIdVersioner';
+import {
+  FroidManifestNodes,
+  getManifestNode,
+  indexManifestNodes,
+  validateKeyValues,
+} from './froidManifest';
+import {FroidManifest} from '../schema/types';
+import {parseKeyValues} from './parseKeyValues';
+import {
+  assertDecodedDepth,
+  assertDecodedSize,
+  assertIdLength,
+  assertNodeSelections,
+} from './requestLimits';
+import {
+  createFroidError,
+  DECODE_FAILED,
+  formatError,
+  INVALID_ID_FORMAT,
+  MISSING_ID,
+  QUERY_PARSE_ERROR,
+  QUERY_VALIDATION_ERROR,
+  resolveErrorRedaction,
+  UNKNOWN_TYPE,
+  withErrorCode,
+} from './froidErrors';
 
 const NODE = 'node';
+const NODES = 'nodes';
+const TYPENAME = '__typename';
+const QUERY = 'Query';
+const SERVICE = '_service';
+const SERVICE_TYPE = '_Service';
+// Type names taken from ids that don't match this can't name any GraphQL type
+const TYPENAME_PATTERN = /^[_A-Za-z][_0-9A-Za-z]*$/;
+
+// Schemas passed as documents are only printed once, the first time the
+// `_service` field is requested
+const printedSdls = new WeakMap<DocumentNode, string>();
+
+/**
+ * Prints the FROID schema served by the federation `_service { sdl }` field
+ *
+ * @param {string|DocumentNode} sdl - The FROID schema
+ * @returns {string} The printed FROID schema
+ */
+function printSdl(sdl: string | DocumentNode): string {
+  if (typeof sdl === 'string') {
+    return sdl;
+  }
+
+  let printedSdl = printedSdls.get(sdl);
+  if (printedSdl === undefined) {
+    printedSdl = print(sdl);
+    printedSdls.set(sdl, printedSdl);
+  }
+  return printedSdl;
+}
+
+/**
+ * Shapes a value to the fields requested by a selection set, honoring
+ * aliases, fragments and `@skip`/`@include` directives. Fields that aren't
+ * present on the value are left out of the shaped value.
+ *
+ * @param {any} value - The value to shape
+ * @param {SelectionSetNode|undefined} selectionSet - The selection set requested for the value
+ * @param {Record<string, FragmentDefinitionNode>} fragments - The named fragments of the document
+ * @param {object} variableValues - The variable values used to execute the request
+ * @returns {any} The shaped value
+ */
+function shapeToSelectionSet(
+  value: any,
+  selectionSet: SelectionSetNode | undefined,
+  fragments: Record<string, FragmentDefinitionNode>,
+  variableValues: Record<string, any>
+): any {
+  if (!selectionSet || value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) =>
+      shapeToSelectionSet(item, selectionSet, fragments, variableValues)
+    );
+  }
+
+  const shapedValue = {};
+  collectFields(
+    selectionSet,
+    value.__typename,
+    fragments,
+    variableValues
+  ).forEach((fields, responseName) => {
+    const fieldName = fields[0].name.value;
+
+    if (!Object.prototype.hasOwnProperty.call(value, fieldName)) {
+      return;
+    }
+
+    shapedValue[responseName] = shapeToSelectionSet(
+      value[fieldName],
+      mergeSelectionSets(fields),
+      fragments,
+      variableValues
+    );
+  });
+
+  return shapedValue;
+}
 
 /**
- * Extracts an `id` value from a GQL AST node
+ * Extracts the `id` value of a compiled `node` field
  *
- * @param {object} field - AST node representing the parsed field
- * @param {object} variables - Variables used to execute the request
+ * @param {FroidPlanField} field - The compiled field
+ * @param {object} variableValues - The variable values, with defaults applied, used to execute the request
  * @returns {string|null} The id field value
  */
-function findIdValue(field, variables): string | null {
-  // extract out the value for the `id` argument to the `node` Query field
-  const idArg = field?.arguments?.find((a) => a.name.value == 'id');
-
-  // Base on the type of node we are dealing with, extract out the value
-  // of the `id` argument
-  switch (idArg?.value?.kind) {
-    case Kind.VARIABLE:
-      // reach into the variables object and pull out the correct argument value
-      return variables?.[idArg.value.name.value];
-    case Kind.STRING:
-      // The value was passed directly in the query string
-      // Extract it off of the node.
-      const value = idArg.value as StringValueNode;
-      return value.value;
-    default:
-      // It should be impossible to hit these cases becuase the graph
-      // is strongly typed.
-      throw new Error(
-        `'${idArg.value.kind}' is not supported by the node field`
-      );
+function findIdValue(
+  field: FroidPlanField,
+  variableValues: Record<string, any>
+): string | null {
+  return resolvePlanValue(field.argument, variableValues);
+}
+
+/**
+ * Extracts the `ids` values of a compiled `nodes` field
+ *
+ * @param {FroidPlanField} field - The compiled field
+ * @param {object} variableValues - The variable values, with defaults applied, used to execute the request
+ * @returns {string[]|null} The ids field values
+ */
+function findIdsValue(
+  field: FroidPlanField,
+  variableValues: Record<string, any>
+): string[] | null {
+  const ids = resolvePlanValue(field.argument, variableValues);
+
+  if (ids === null || ids === undefined) {
+    return null;
+  }
+
+  // GraphQL input coercion allows a single value to be passed to a list argument
+  return Array.isArray(ids) ? ids : [ids];
+}
+
+/**
+ * Counts the nodes requested by the root fields of an operation, i.e. one for
+ * each `node` field and one for each id of each `nodes` field
+ *
+ * @param {Map<string, FroidPlanField[]>} rootFields - The root fields of the operation, keyed by their response name
+ * @param {object} variableValues - The variable values, with defaults applied, used to execute the request
+ * @returns {number} The number of nodes requested
+ */
+function countNodeSelections(
+  rootFields: Map<string, FroidPlanField[]>,
+  variableValues: Record<string, any>
+): number {
+  return Array.from(rootFields.values()).reduce((count, [field]) => {
+    switch (field.fieldName) {
+      case NODE:
+        return count + 1;
+      case NODES:
+        try {
+          return count + (findIdsValue(field, variableValues)?.length || 0);
+        } catch {
+          // Invalid arguments are reported when the field is resolved
+          return count;
+        }
+      default:
+        return count;
+    }
+  }, 0);
+}
+
+/**
+ * Counts the nodes requested by an operation of a parsed query document, i.e.
+ * one for each `node` field and one for each id of each `nodes` field
+ *
+ * @param {DocumentNode} document - The parsed query document
+ * @param {object} request - The request the document is executed for
+ * @param {string} request.query - Query document being executed
+ * @param {string} request.operationName - The name of the operation to execute when the document contains several
+ * @param {object} request.variables - Variables used to execute the request
+ * @returns {number} The number of nodes requested, or `0` when the operation can't be executed
+ */
+export function countOperationNodeSelections(
+  document: DocumentNode,
+  {query, operationName, variables}: GenerateEntityObjectsByIdArguments
+): number {
+  try {
+    const plan = compileOperationPlan(document);
+    const operation = getOperation(plan, operationName);
+    const variableValues = getVariableValues(operation, variables);
+
+    return countNodeSelections(
+      collectPlanFields(plan, operation.selections, variableValues, query),
+      variableValues
+    );
+  } catch {
+    // Operations that can't be executed are reported when they are executed
+    return 0;
+  }
+}
+
+export type EntityObjectOptions = {
+  signer?: IdSigner;
+  idCodec?: IdCodec;
+  versioner?: IdVersioner;
+  manifestNodes?: FroidManifestNodes;
+  strictKeyValidation?: boolean;
+  limits?: FroidRequestLimits;
+};
+
+/**
+ * Generates an entity object with the `id` + entity keys present from a global identifier
+ *
+ * @param {string} id - The relay-spec compliant global identifier
+ * @param {decoderCallback} decode - Decoding method used to derive the key arguments
+ * @param {object} options - Optional options passed through to the decoding method
+ * @param {AbortSignal} options.signal - Signal used to abort the request
+ * @param {object} idOptions - Optional options for configuring how the id is parsed
+ * @param {IdSigner} idOptions.signer - Signer used to verify the id's signature, if ids are signed
+ * @param {IdCodec} idOptions.idCodec - Codec used to parse the id
+ * @param {IdVersioner} idOptions.versioner - Versioner used to pick the decoder for the id's format version, if ids are versioned
+ * @param {FroidManifestNodes} idOptions.manifestNodes - The node types ids may be resolved to and their keys, if restricted by a manifest
+ * @param {boolean} idOptions.strictKeyValidation - Whether to reject key values with fields that aren't part of the type's key
+ * @param {FroidRequestLimits} idOptions.limits - Limits on the size of the id and of its decoded key values
+ * @returns {Promise<object>} Promise representing the entity object
+ */
+export async function generateEntityObject(
+  id: string | null,
+  decode: DecodeCallback,
+  options: CallbackOptions = {},
+  {
+    signer,
+    idCodec = relayIdCodec,
+    versioner,
+    manifestNodes,
+    strictKeyValidation,
+    limits = {},
+  }: EntityObjectOptions = {}
+): Promise<Record<string, any>> {
+  // Throw an error if we didn't get a non-empty string value for the id
+  if (!id) {
+    throw createFroidError('Unable to parse id from operation', MISSING_ID);
+  }
+
+  // Don't do any work for ids that are larger than any valid id
+  assertIdLength(id, limits);
+
+  // Unwrap the global identifier
+  let parsedId: {typename: string; keys: string};
+  try {
+    parsedId = idCodec.parse(id);
+  } catch (error) {
+    throw withErrorCode(error, INVALID_ID_FORMAT);
+  }
+  const {typename: __typename, keys: payload} = parsedId;
+
+  // Reject ids whose type name can't be resolved to any type, which is told
+  // apart from ids for types that aren't nodes of the FROID schema. Ids
+  // without a type name at all are malformed, and fail to be parsed below.
+  if (__typename && !TYPENAME_PATTERN.test(__typename)) {
+    throw createFroidError(
+      'Unable to resolve the type of the id',
+      UNKNOWN_TYPE
+    );
+  }
+
+  // Reject ids for types that aren't nodes of the FROID schema before doing
+  // any decoding work
+  const manifestNode =
+    manifestNodes && getManifestNode(manifestNodes, __typename);
+
+  // Separate the signature from the encoded key values of signed ids, and
+  // reject ids whose payload doesn't match the signature it was issued with
+  // before doing any decoding work
+  let versionedPayload = payload;
+  if (signer) {
+    const unwrapped = signer.unwrap(payload);
+    signer.verify(__typename, unwrapped.payload, unwrapped.signature);
+    versionedPayload = unwrapped.payload;
+  }
+
+  // Pick the decoding algorithm for the format version of versioned ids
+  const {payload: encodedId, decode: decodeVersion} = versioner
+    ? versioner.unwrap(versionedPayload, decode)
+    : {payload: versionedPayload, decode};
+
+  // Create the object we want to return in our response
+  const relayNode = {__typename, id};
+
+  // Get the keys object based on the current decoding algorithm
+  let idJsonString: string;
+  try {
+    idJsonString = await decodeVersion(encodedId, options);
+  } catch (error) {
+    throw withErrorCode(error, DECODE_FAILED);
+  }
+
+  assertDecodedSize(idJsonString, limits);
+  assertDecodedDepth(idJsonString, limits);
+
+  // Never let the key values tamper with prototypes or override the type
+  // name and id taken from the id itself
+  const keys = parseKeyValues(idJsonString);
+
+  // Reject key values that don't match the key selected for the type, rather
+  // than letting the owning subgraph fail to resolve the entity
+  if (manifestNode) {
+    validateKeyValues(manifestNode, keys, strictKeyValidation);
+  }
+
+  // Update the node to include all of the key values for the node
+  // in order to ensure we are returning a federatable object that the
+  // gateway can process successfully.
+  //
+  // If we didn't do this, the @key values that are required wouldn't be
+  // provided to the subgraph service that needs to resolve the request to
+  // provide the rest of the values on for this query type.
+  return {...relayNode, ...keys};
+}
+
+/**
+ * Gets the compiled plan of a query from the cache. The cache may be shared
+ * (e.g. across gateway replicas), so a cache that fails, or that doesn't
+ * respond before the request is aborted, is treated as a miss rather than
+ * failing the request.
+ *
+ * @param {FroidCache|undefined} cache - The cache, if any
+ * @param {string} query - The query string
+ * @param {AbortScope} scope - The abort scope of the request
+ * @returns {Promise<FroidOperationPlan|DocumentNode|undefined>} The cached plan (or parsed document), if any
+ */
+async function getCachedPlan(
+  cache: FroidCache | undefined,
+  query: string,
+  scope: AbortScope
+): Promise<FroidOperationPlan | DocumentNode | undefined> {
+  if (!cache) {
+    return undefined;
+  }
+
+  try {
+    return (await scope.run(() => cache.get(query))) || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Adds the compiled plan of a query to the cache, ignoring failures of the
+ * cache. The request doesn't wait for the plan to be cached.
+ *
+ * @param {FroidCache|undefined} cache - The cache, if any
+ * @param {string} query - The query string
+ * @param {FroidOperationPlan} plan - The compiled plan
+ * @returns {Promise<void>} Promise representing the plan being cached
+ */
+async function setCachedPlan(
+  cache: FroidCache | undefined,
+  query: string,
+  plan: FroidOperationPlan
+): Promise<void> {
+  try {
+    await cache?.set(query, plan);
+  } catch {
+    // The plan is simply compiled again by the next request
   }
 }
 
 export type GenerateEntityObjectsByIdOptions = {
   decode?: DecodeCallback;
   cache?: FroidCache;
+  shapeToSelection?: boolean;
+  sdl?: string | DocumentNode;
+  signing?: IdSigningOptions;
+  idCodec?: IdCodec;
+  versioning?: IdVersioningOptions;
+  manifest?: FroidManifest;
+  strictKeyValidation?: boolean;
+  legacyErrorFormat?: boolean;
+  errorRedaction?: ErrorRedactionOptions;
+  debug?: boolean;
+  limits?: FroidRequestLimits;
+  signal?: AbortSignal;
+  timeout?: number;
 };
 
 export type GenerateEntityObjectsByIdArguments = {
   query: string;
+  operationName?: string | null;
   variables?: Record<string, any>;
   options?: GenerateEntityObjectsByIdOptions;
 };
 
 /**
- * Generates a Relay-spec complient Entity Object with an `id` field
+ * Resolves the root fields of a request within the abort scope of the request
  *
- * @param {object} object - Container object injected into the generateEntityObjectsById function
- * @param {string} object.query - Query document being executed
- * @param {object} object.variables - Variables used to execute the request
- * @param {object} options - Optional options for configuring generateEntityObjectsById
- * @param {decoderCallback} options.decode - Decoding method used to derive the key arguments
- * @param {FroidCache} options.cache - Cache to use to avoid re-parsing query documents
- * @returns {Promise<Array.<object>>} Promise representing the list of entity objects with a relay-spec compliant `id` value
+ * @param {object} request - The request, see generateEntityObjectsById
+ * @param {string} request.query - Query document being executed
+ * @param {string} request.operationName - The name of the operation to execute when the document contains several
+ * @param {object} request.variables - Variables used to execute the request
+ * @param {object} options - Optional options, see generateEntityObjectsById
+ * @param {AbortScope} scope - The abort scope of the request
+ * @returns {Promise<object>} Promise representing the response to the request
  */
-export function generateEntityObjectsById(
-  {query, variables}: GenerateEntityObjectsByIdArguments,
-  options?: GenerateEntityObjectsByIdOptions
+async function resolveEntityObjectsById(
+  {query, operationName, variables}: GenerateEntityObjectsByIdArguments,
+  options: GenerateEntityObjectsByIdOptions | undefined,
+  scope: AbortScope
 ): Promise<GraphQLResponse> {
   const decode = options?.decode || ((keyString) => keyString);
+  const legacyErrorFormat = options?.legacyErrorFormat;
+  const redaction = resolveErrorRedaction(
+    options?.errorRedaction,
+    options?.debug
+  );
+
+  // Compile the query document into a plan of its root fields, so that
+  // requests for cached queries only need to apply their variables
+  let plan = await getCachedPlan(options?.cache, query, scope);
 
-  // Parse the query document so that we can visit each node
-  // Cache it to avoid future future parsing overhead
-  let parsedQuery = options?.cache?.get(query);
+  if (!isOperationPlan(plan)) {
+    // Parsed documents cached by previous versions are compiled without being
+    // parsed again, while plans cached by other versions are treated as misses
+    let parsedQuery = plan?.kind === Kind.DOCUMENT ? plan : undefined;
+
+    if (!parsedQuery) {
+      try {
+        parsedQuery = parse(query, {maxTokens: options?.limits?.maxTokens});
+      } catch (error) {
+        return {
+          data: null,
+          errors: [
+            formatError(error, {
+              fallbackMessage: 'Error parsing schema',
+              code: QUERY_PARSE_ERROR,
+              query,
+              legacyErrorFormat,
+              redaction,
+            }),
+          ],
+        };
+      }
+    }
 
-  if (!parsedQuery) {
     try {
-      parsedQuery = parse(query);
+      plan = compileOperationPlan(parsedQuery);
     } catch (error) {
-      const message =
-        // @ts-ignore we protect against message property not existing and provide a fallback instead
-        (typeof error === 'object' && error?.message) || 'Error parsing schema';
-
-      return Promise.resolve({
+      return {
         data: null,
-        errors: [{message, query}],
-      });
+        errors: [
+          formatError(error, {
+            fallbackMessage: 'Error compiling operation',
+            code: QUERY_VALIDATION_ERROR,
+            query,
+            legacyErrorFormat,
+            redaction,
+          }),
+        ],
+      };
     }
-    options?.cache?.set(query, parsedQuery);
+    setCachedPlan(options?.cache, query, plan);
   }
 
-  // Used to build up an in-memory response for the incoming request
-  const response: GraphQLResponse = {data: {}};
+  const {fragmentDefinitions} = plan;
+  let rootFields: Map<string, FroidPlanField[]>;
+  let variableValues: Record<string, any>;
 
-  visit(parsedQuery, {
-    Field(node) {
-      // If we are currently processing the `node` field node
-      if (node.name.value == NODE) {
-        // We need to track the client-side alias used to ensure we return the
-        // correct key in our data response. We use the actual `node` name if
-        // there is no alias (cause you get what you ask for ;)!)
-        const responseName = node.alias ? node.alias.value : node.name.value;
+  try {
+    const operation = getOperation(plan, operationName);
 
-        let id;
+    if (operation.operation !== OperationTypeNode.QUERY) {
+      throw new GraphQLError(
+        `Schema is not configured to execute ${operation.operation} operation.`
+      );
+    }
 
-        try {
-          id = findIdValue(node, variables);
-
-          // Throw an error if we didn't get a non-empty string value for the id
-          if (!id) throw new GraphQLError('Unable to parse id from operation');
-
-          // Unwrap the relay identifier
-          const {type: __typename, id: encodedId} = fromGlobalId(id);
-
-          // Create the object we want to return in our response
-          let relayNode = {__typename, id};
-
-          // Get the keys object based on the current decoding algorithm
-          const idJsonString = decode(encodedId);
-          const keys = JSON.parse(idJsonString);
-
-          // Update the node to include all of the key values for the node
-          // in order to ensure we are returning a federatable object that the
-          // gateway can process successfully.
-          //
-          // If we didn't do this, the @key values that are required wouldn't be
-          // provided to the subgraph service that needs to resolve the request to
-          // provide the rest of the values on for this query type.
-          relayNode = {...relayNode, ...keys};
-
-          // Add the node object to the response
-          //
-          // This allows us to support 'node' queries w/multiple inline fragments
-          response.data[responseName] = relayNode;
-        } catch (error) {
-          const message =
-            // @ts-ignore we protect against message property not existing and provide a fallback instead
-            (typeof error === 'object' && error?.message) ||
-            'Error generating entity object';
-
-          response.errors ||= [];
-          response.errors.push({message, query, id});
-          response.data[responseName] = null;
+    // Apply variable default values before any argument values are read
+    variableValues = getVariableValues(operation, variables);
+
+    rootFields = collectPlanFields(
+      plan,
+      operation.selections,
+      variableValues,
+      query
+    );
+  } catch (error) {
+    return {
+      data: null,
+      errors: [
+        formatError(error, {
+          fallbackMessage: 'Error selecting operation',
+          code: QUERY_VALIDATION_ERROR,
+          query,
+          legacyErrorFormat,
+          redaction,
+        }),
+      ],
+    };
+  }
+
+  // Reject operations requesting more nodes than allowed before decoding any
+  // of their ids
+  try {
+    assertNodeSelections(
+      countNodeSelections(rootFields, variableValues),
+      options?.limits || {}
+    );
+  } catch (error) {
+    return {
+      data: null,
+      errors: [
+        formatError(error, {
+          fallbackMessage: 'Error selecting operation',
+          code: QUERY_VALIDATION_ERROR,
+          query,
+          legacyErrorFormat,
+          redaction,
+        }),
+      ],
+    };
+  }
+
+  const signer = options?.signing && createIdSigner(options.signing);
+  const versioner =
+    options?.versioning && createIdVersioner(options.versioning);
+  const manifestNodes =
+    options?.manifest && indexManifestNodes(options.manifest);
+
+  // Resolve each root field concurrently. Each one resolves to its own value
+  // and errors so that the response is built in a deterministic order, no
+  // matter the order in which the decoding callbacks settle.
+  const results = await Promise.all(
+    Array.from(rootFields, async ([responseName, fields]) => {
+      const [node] = fields;
+      const errors: object[] = [];
+      // Errors for the field itself weren't given a path in the legacy format
+      const fieldPath = legacyErrorFormat ? undefined : [responseName];
+
+      // Either return the entire entity object, or only what was selected for it
+      const shape = (entityObject: Record<string, any>) =>
+        options?.shapeToSelection
+          ? shapeToSelectionSet(
+              entityObject,
+              mergeSelectionSets(fields),
+              fragmentDefinitions,
+              variableValues
+            )
+          : entityObject;
+
+      const resolveEntityObject = (id: string | null) =>
+        scope.run(() =>
+          generateEntityObject(
+            id,
+            decode,
+            {signal: scope.signal},
+            {
+              signer,
+              idCodec: options?.idCodec,
+              versioner,
+              manifestNodes,
+              strictKeyValidation: options?.strictKeyValidation,
+              limits: options?.limits,
+            }
+          )
+        );
+
+      const resolveValue = async () => {
+        switch (node.fieldName) {
+          case TYPENAME:
+            return QUERY;
+          case NODE: {
+            let id;
+
+            try {
+              id = findIdValue(node, variableValues);
+
+              // Add the node object to the response
+              //
+              // This allows us to support 'node' queries w/multiple inline fragments
+              return shape(await resolveEntityObject(id));
+            } catch (error) {
+              errors.push(
+                formatError(error, {
+                  fallbackMessage: 'Error generating entity object',
+                  code: DECODE_FAILED,
+                  path: fieldPath,
+                  query,
+                  id,
+                  legacyErrorFormat,
+                  redaction,
+                })
+              );
+              return null;
+            }
+          }
+          case NODES: {
+            let ids;
+
+            try {
+              ids = findIdsValue(node, variableValues);
+
+              if (!ids) {
+                throw createFroidError(
+                  'Unable to parse ids from operation',
+                  MISSING_ID
+                );
+              }
+            } catch (error) {
+              errors.push(
+                formatError(error, {
+                  fallbackMessage: 'Error generating entity objects',
+                  code: QUERY_VALIDATION_ERROR,
+                  path: fieldPath,
+                  query,
+                  legacyErrorFormat,
+                  redaction,
+                })
+              );
+              return null;
+            }
+
+            // Resolve each node independently so that a bad id only nulls out its
+            // own position in the list, leaving partial results for the rest
+            const nodeErrors: object[] = [];
+            const nodes = await Promise.all(
+              ids.map(async (id, index) => {
+                try {
+                  return shape(await resolveEntityObject(id));
+                } catch (error) {
+                  nodeErrors[index] = formatError(error, {
+                    fallbackMessage: 'Error generating entity object',
+                    code: DECODE_FAILED,
+                    path: [responseName, index],
+                    query,
+                    id,
+                    legacyErrorFormat,
+                    redaction,
+                  });
+                  return null;
+                }
+              })
+            );
+            errors.push(...nodeErrors.filter(Boolean));
+            return nodes;
+          }
+          case SERVICE:
+            // The federation `_service` field can only be served when we
+            // were handed the FROID schema
+            if (options?.sdl !== undefined) {
+              return shapeToSelectionSet(
+                {__typename: SERVICE_TYPE, sdl: printSdl(options.sdl)},
+                mergeSelectionSets(fields),
+                fragmentDefinitions,
+                variableValues
+              );
+            }
+            break;
         }
-      }
-    },
+
+        // The FROID subgraph only serves the relay object identification fields
+        // (and the federation fields it has been configured to serve)
+        errors.push(
+          formatError(
+            createFroidError(
+              `Cannot query field "${node.fieldName}" on type "${QUERY}".`,
+              QUERY_VALIDATION_ERROR
+            ),
+            {
+              fallbackMessage: 'Error resolving field',
+              code: QUERY_VALIDATION_ERROR,
+              path: fieldPath,
+              query,
+              legacyErrorFormat,
+              redaction,
+            }
+          )
+        );
+        return null;
+      };
+
+      return {responseName, value: await resolveValue(), errors};
+    })
+  );
+
+  // Used to build up an in-memory response for the incoming request
+  const response: GraphQLResponse = {data: {}};
+
+  results.forEach(({responseName, value, errors}) => {
+    response.data[responseName] = value;
+
+    if (errors.length) {
+      response.errors ||= [];
+      response.errors.push(...errors);
+    }
   });
 
-  // Need to return a promise to the gateway to simulate an async request
-  return Promise.resolve(response);
+  return response;
+}
+
+/**
+ * Generates a Relay-spec complient Entity Object with an `id` field
+ *
+ * @param {object} object - Container object injected into the generateEntityObjectsById function
+ * @param {string} object.query - Query document being executed
+ * @param {string} object.operationName - The name of the operation to execute when the document contains several
+ * @param {object} object.variables - Variables used to execute the request
+ * @param {object} options - Optional options for configuring generateEntityObjectsById
+ * @param {decoderCallback} options.decode - Decoding method used to derive the key arguments
+ * @param {FroidCache} options.cache - Cache to use to avoid re-parsing and re-compiling query documents
+ * @param {boolean} options.shapeToSelection - Whether or not to only return the fields selected for each node
+ * @param {string|DocumentNode} options.sdl - The FROID schema, used to serve the federation `_service { sdl }` field
+ * @param {IdSigningOptions} options.signing - Secrets used to verify the signature of ids, rejecting ids whose key values were tampered with
+ * @param {IdCodec} options.idCodec - Codec used to parse ids, defaulting to relay-spec compliant global identifiers
+ * @param {IdVersioningOptions} options.versioning - The decoders used for each format version of ids
+ * @param {FroidManifest} options.manifest - The FROID manifest (see FroidSchema.toManifest), used to reject ids for types that aren't nodes of the FROID schema and ids whose key values don't match the type's key
+ * @param {boolean} options.strictKeyValidation - Whether to also reject ids whose key values have fields that aren't part of the type's key
+ * @param {boolean} options.legacyErrorFormat - Whether to format errors the way they were formatted before they carried error codes
+ * @param {ErrorRedactionOptions} options.errorRedaction - How to redact the query and ids echoed back in errors (the query is omitted and ids are hashed by default)
+ * @param {boolean} options.debug - Whether to echo the query and ids back in errors verbatim, regardless of `errorRedaction`
+ * @param {FroidRequestLimits} options.limits - Limits on the number of nodes requested, and on the size of ids and their decoded key values
+ * @param {AbortSignal} options.signal - Signal used to abort the request
+ * @param {number} options.timeout - The number of milliseconds the request is allowed to take
+ * @returns {Promise<Array.<object>>} Promise representing the list of entity objects with a relay-spec compliant `id` value
+ */
+export async function generateEntityObjectsById(
+  {query, operationName, variables}: GenerateEntityObjectsByIdArguments,
+  options?: GenerateEntityObjectsByIdOptions
+): Promise<GraphQLResponse> {
+  // The abort scope also covers reading the cache, so that a hanging cache
+  // can't hold up the response
+  const scope = createAbortScope(options);
+
+  try {
+    return await resolveEntityObjectsById(
+      {query, operationName, variables},
+      options,
+      scope
+    );
+  } finally {
+    scope.dispose();
+  }
 }
 
 /**
@@ -151,5 +781,6 @@ export function generateEntityObjectsById(
  *
  * @callback decoderCallback
  * @param {string} Keys that need to be decoded
- * @returns {string} The decoded string
+ * @param {object} options - The options of the request, such as its AbortSignal
+ * @returns {string|Promise<string>} The decoded string
  */
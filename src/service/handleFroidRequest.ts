@@ -1,34 +1,116 @@
+import {
+  DocumentNode,
+  execute,
+  ExecutionResult,
+  GraphQLError,
+  GraphQLSchema,
+  parse,
+  validate,
+} from 'graphql';
 import {
   generateEntityObjectWithId,
   GenerateEntityObjectsWithIdOptions,
 } from './generateEntityObjectWithId';
 import {
+  countOperationNodeSelections,
   generateEntityObjectsById,
   GenerateEntityObjectsByIdOptions,
 } from './generateEntityObjectsById';
 import {GraphQLResponse, GraphQLRequest} from './types';
+import {createAbortScope} from './createAbortScope';
+import {FroidExecutionContext} from './createFroidExecutableSchema';
+import {assertNodeSelections} from './requestLimits';
 
 export type HandleFroidRequestOptions = GenerateEntityObjectsWithIdOptions &
-  GenerateEntityObjectsByIdOptions;
+  GenerateEntityObjectsByIdOptions & {
+    schema?: GraphQLSchema;
+  };
+
+/**
+ * Validates and executes a request with an executable FROID schema, rejecting
+ * requests that exceed the request limits before they are executed
+ *
+ * @param {GraphQLSchema} schema - The executable FROID schema
+ * @param {object} request - Request object representing the incoming request
+ * @param {object} options - Configuration options available to handleFroidRequest
+ * @returns {Promise<object>} Promise representing the result of the execution
+ */
+async function executeFroidRequest(
+  schema: GraphQLSchema,
+  request: GraphQLRequest,
+  options: HandleFroidRequestOptions
+): Promise<ExecutionResult> {
+  const limits = options.limits || {};
+
+  // Documents with more tokens than allowed are rejected before they're fully
+  // parsed
+  let document: DocumentNode;
+  try {
+    document = parse(request.query, {maxTokens: limits.maxTokens});
+  } catch (error) {
+    return {errors: [error as GraphQLError]};
+  }
+
+  const validationErrors = validate(schema, document);
+  if (validationErrors.length > 0) {
+    return {errors: validationErrors};
+  }
+
+  // Reject operations requesting more nodes than allowed before executing them
+  try {
+    assertNodeSelections(
+      countOperationNodeSelections(document, request),
+      limits
+    );
+  } catch (error) {
+    return {errors: [error as GraphQLError]};
+  }
+
+  const abortScope = createAbortScope(options);
+  const contextValue: FroidExecutionContext = {
+    abortScope,
+    limits: options.limits,
+  };
+
+  try {
+    return await execute({
+      schema,
+      document,
+      contextValue,
+      variableValues: request.variables,
+      operationName: request.operationName,
+    });
+  } finally {
+    abortScope.dispose();
+  }
+}
 
 /**
  * Handler for a Federated Relay Global Object Identifier Request
  *
  * @param {object} request - Request object representing the incoming request
  * @param {string} request.query - Query document being executed
+ * @param {string} request.operationName - The name of the operation to execute when the document contains several
  * @param {object} request.variables - Variables used to execute the request
  * @param {object} options - Configuration options available to handleFroidRequest. See generateEntityObjectsById & generateEntityObjectWithId for additional details
+ * @param {GraphQLSchema} options.schema - An executable FROID schema (see createFroidExecutableSchema) used to execute the request with graphql-js instead
+ * @param {AbortSignal} options.signal - Signal used to abort the request
+ * @param {number} options.timeout - The number of milliseconds the request is allowed to take
  * @returns {Promise<object[]>} Promise representing the list of entity objects with a relay-spec compliant `id` value
  */
 export function handleFroidRequest(
   request: GraphQLRequest,
   options: HandleFroidRequestOptions = {}
-): GraphQLResponse {
+): Promise<GraphQLResponse> {
   let result;
 
-  // If we are executing an entity reference resolver
-  // https://www.apollographql.com/docs/federation/entities/#2-define-a-reference-resolver
-  if (request.variables && request.variables.representations) {
+  // If we were handed an executable schema, let graphql-js validate and
+  // execute the request for us
+  if (options.schema) {
+    result = executeFroidRequest(options.schema, request, options);
+  } else if (request.variables && request.variables.representations) {
+    // If we are executing an entity reference resolver
+    // https://www.apollographql.com/docs/federation/entities/#2-define-a-reference-resolver
     result = generateEntityObjectWithId(
       {
         representations: request.variables.representations,
@@ -40,6 +122,7 @@ export function handleFroidRequest(
     result = generateEntityObjectsById(
       {
         query: request.query,
+        operationName: request.operationName,
         variables: request.variables,
       },
       options
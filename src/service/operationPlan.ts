@@ -0,0 +1,608 @@
+import {
+  DirectiveNode,
+  DocumentNode,
+  FieldNode,
+  FragmentDefinitionNode,
+  FragmentSpreadNode,
+  InlineFragmentNode,
+  OperationDefinitionNode,
+  SelectionSetNode,
+  ValueNode,
+} from 'graphql/language/ast';
+import {Kind} from 'graphql/language/kinds';
+import {
+  getDirectiveValues,
+  GraphQLDirective,
+  GraphQLError,
+  GraphQLIncludeDirective,
+  GraphQLSkipDirective,
+  Source,
+  valueFromASTUntyped,
+  visit,
+} from 'graphql';
+import {
+  FroidOperationPlan,
+  FroidPlanConditions,
+  FroidPlanField,
+  FroidPlanOperation,
+  FroidPlanSelection,
+  FroidPlanValue,
+} from './types';
+import {createFroidError, QUERY_VALIDATION_ERROR} from './froidErrors';
+import {doesFragmentConditionMatch, getFragments} from './collectFields';
+
+const QUERY = 'Query';
+
+// The version of the shape of compiled plans. Bump it whenever that shape
+// changes, so that plans cached by other versions are compiled again.
+export const OPERATION_PLAN_VERSION = 1;
+
+// The arguments the ids of each relay object identification field are read from
+const ID_ARGUMENTS: Record<string, string> = {node: 'id', nodes: 'ids'};
+
+/**
+ * Compiles an id value into where it is read from when a request is executed,
+ * i.e. a literal or a variable
+ *
+ * @param {FieldNode} field - AST node representing the parsed field
+ * @param {ValueNode} value - AST node representing the id value
+ * @returns {FroidPlanValue} The compiled id value
+ */
+function compileIdValue(field: FieldNode, value: ValueNode): FroidPlanValue {
+  switch (value.kind) {
+    case Kind.VARIABLE:
+      // The value is read from the variables of each request
+      return {variable: value.name.value};
+    case Kind.STRING:
+    case Kind.INT:
+      // The value was passed directly in the query string. ID literals may be
+      // strings or integers, and are always read as strings.
+      return {literal: value.value};
+    case Kind.NULL:
+      return {literal: null};
+    default:
+      // It should be impossible to hit these cases becuase the graph
+      // is strongly typed. Invalid arguments are only reported if the field
+      // is executed.
+      return {
+        error: `'${value.kind}' is not supported by the ${field.name.value} field`,
+        code: QUERY_VALIDATION_ERROR,
+      };
+  }
+}
+
+/**
+ * Compiles the value of a field's id argument. Fields without the argument
+ * have no compiled value, so they are reported as missing an id.
+ *
+ * @param {FieldNode} field - AST node representing the parsed field
+ * @param {string} name - The name of the argument
+ * @returns {FroidPlanValue|undefined} The compiled argument value, if the argument is set
+ */
+function compileArgumentValue(
+  field: FieldNode,
+  name: string
+): FroidPlanValue | undefined {
+  // extract out the argument from the field
+  const arg = field.arguments?.find((a) => a.name.value == name);
+
+  if (!arg) {
+    return;
+  }
+
+  // A list of values was passed directly in the query string.
+  // Compile each of them.
+  if (arg.value.kind === Kind.LIST) {
+    return {list: arg.value.values.map((item) => compileIdValue(field, item))};
+  }
+
+  return compileIdValue(field, arg.value);
+}
+
+/**
+ * Compiles the `if` argument of a `@skip` or `@include` directive
+ *
+ * @param {GraphQLDirective} directive - The `@skip` or `@include` directive
+ * @param {FieldNode|FragmentSpreadNode|InlineFragmentNode} node - The selection the directive may be applied to
+ * @returns {FroidPlanValue|undefined} The compiled condition, if the directive is applied
+ */
+function compileCondition(
+  directive: GraphQLDirective,
+  node: FieldNode | FragmentSpreadNode | InlineFragmentNode
+): FroidPlanValue | undefined {
+  const directiveNode = node.directives?.find(
+    ({name}: DirectiveNode) => name.value === directive.name
+  );
+
+  if (!directiveNode) {
+    return;
+  }
+
+  const value = directiveNode.arguments?.find(
+    ({name}) => name.value === 'if'
+  )?.value;
+
+  if (value?.kind === Kind.VARIABLE) {
+    return {variable: value.name.value, position: value.loc?.start};
+  }
+
+  try {
+    return {literal: getDirectiveValues(directive, node, {})?.if};
+  } catch (error) {
+    // Invalid conditions are only reported if the selection is collected
+    return {
+      error: (error as Error).message,
+      position: (error as GraphQLError).positions?.[0],
+    };
+  }
+}
+
+/**
+ * Compiles the `@skip` and `@include` directives of a selection
+ *
+ * @param {FieldNode|FragmentSpreadNode|InlineFragmentNode} node - The selection
+ * @returns {FroidPlanConditions} The compiled conditions
+ */
+function compileConditions(
+  node: FieldNode | FragmentSpreadNode | InlineFragmentNode
+): FroidPlanConditions {
+  const skip = compileCondition(GraphQLSkipDirective, node);
+  const include = compileCondition(GraphQLIncludeDirective, node);
+
+  return {...(skip ? {skip} : {}), ...(include ? {include} : {})};
+}
+
+/**
+ * Compiles the selections of a root selection set. The selections of
+ * fragments that can never apply to the root query type are left out of the
+ * plan.
+ *
+ * @param {SelectionSetNode} selectionSet - The selection set
+ * @returns {FroidPlanSelection[]} The compiled selections
+ */
+function compileSelections(
+  selectionSet: SelectionSetNode
+): FroidPlanSelection[] {
+  return selectionSet.selections.flatMap((selection): FroidPlanSelection[] => {
+    switch (selection.kind) {
+      case Kind.FIELD: {
+        const fieldName = selection.name.value;
+        const argumentName = ID_ARGUMENTS[fieldName];
+        const argument =
+          argumentName && compileArgumentValue(selection, argumentName);
+
+        return [
+          {
+            kind: Kind.FIELD,
+            // We need to track the client-side alias used to ensure we return
+            // the correct key in our data response
+            responseName: selection.alias?.value || fieldName,
+            fieldName,
+            ...(argument ? {argument} : {}),
+            ...(selection.selectionSet
+              ? {selectionSet: selection.selectionSet}
+              : {}),
+            conditions: compileConditions(selection),
+          },
+        ];
+      }
+      case Kind.INLINE_FRAGMENT:
+        return [
+          {
+            kind: Kind.INLINE_FRAGMENT,
+            // The conditions of fragments that don't apply are still
+            // evaluated, so that invalid conditions are always reported
+            selections: doesFragmentConditionMatch(
+              selection.typeCondition?.name.value,
+              QUERY
+            )
+              ? compileSelections(selection.selectionSet)
+              : [],
+            conditions: compileConditions(selection),
+          },
+        ];
+      case Kind.FRAGMENT_SPREAD:
+        return [
+          {
+            kind: Kind.FRAGMENT_SPREAD,
+            name: selection.name.value,
+            conditions: compileConditions(selection),
+          },
+        ];
+    }
+  });
+}
+
+/**
+ * Compiles an operation of a query document
+ *
+ * @param {OperationDefinitionNode} operation - The operation
+ * @returns {FroidPlanOperation} The compiled operation
+ */
+function compileOperation(
+  operation: OperationDefinitionNode
+): FroidPlanOperation {
+  const variableDefaults: Record<string, unknown> = {};
+
+  operation.variableDefinitions?.forEach(({variable, defaultValue}) => {
+    if (defaultValue) {
+      variableDefaults[variable.name.value] = valueFromASTUntyped(defaultValue);
+    }
+  });
+
+  return {
+    ...(operation.name ? {name: operation.name.value} : {}),
+    operation: operation.operation,
+    variableDefaults,
+    selections: compileSelections(operation.selectionSet),
+  };
+}
+
+/**
+ * Gets the selection sets of the compiled fields, which are the only parts of
+ * the document needed to shape values to their selections
+ *
+ * @param {FroidPlanSelection[]} selections - The compiled selections
+ * @returns {SelectionSetNode[]} The selection sets of the compiled fields
+ */
+function getFieldSelectionSets(
+  selections: FroidPlanSelection[]
+): SelectionSetNode[] {
+  return selections.flatMap((selection) => {
+    switch (selection.kind) {
+      case Kind.FIELD:
+        return selection.selectionSet ? [selection.selectionSet] : [];
+      case Kind.INLINE_FRAGMENT:
+        return getFieldSelectionSets(selection.selections);
+      case Kind.FRAGMENT_SPREAD:
+        return [];
+    }
+  });
+}
+
+/**
+ * Picks the named fragments spread within selection sets, including the
+ * fragments spread within those fragments
+ *
+ * @param {Record<string, FragmentDefinitionNode>} definitions - The named fragments of the document
+ * @param {SelectionSetNode[]} selectionSets - The selection sets
+ * @returns {Record<string, FragmentDefinitionNode>} The fragments spread within the selection sets
+ */
+function pickSpreadFragments(
+  definitions: Record<string, FragmentDefinitionNode>,
+  selectionSets: SelectionSetNode[]
+): Record<string, FragmentDefinitionNode> {
+  const picked: Record<string, FragmentDefinitionNode> = {};
+  const pick = (selectionSet: SelectionSetNode) =>
+    visit(selectionSet, {
+      FragmentSpread: ({name}) => {
+        if (!picked[name.value]) {
+          picked[name.value] = definitions[name.value];
+          pick(picked[name.value].selectionSet);
+        }
+      },
+    });
+
+  selectionSets.forEach(pick);
+  return picked;
+}
+
+/**
+ * Rejects documents spreading fragments they don't define, which would
+ * otherwise silently select nothing
+ *
+ * @param {DocumentNode} document - The parsed query document
+ * @param {Record<string, FragmentDefinitionNode>} definitions - The named fragments of the document
+ * @returns {void}
+ * @throws {GraphQLError} When a spread fragment isn't defined
+ */
+function assertKnownFragments(
+  document: DocumentNode,
+  definitions: Record<string, FragmentDefinitionNode>
+): void {
+  visit(document, {
+    FragmentSpread: (node) => {
+      if (!definitions[node.name.value]) {
+        throw new GraphQLError(`Unknown fragment "${node.name.value}".`, {
+          nodes: node,
+          extensions: {code: QUERY_VALIDATION_ERROR},
+        });
+      }
+    },
+  });
+}
+
+/**
+ * Compiles a parsed query document into a plan of its root fields: their
+ * response names, where their id arguments are read from and the `@skip` and
+ * `@include` conditions they are collected under. Executing a request with a
+ * compiled plan only applies its variables to the plan, instead of traversing
+ * the document again.
+ *
+ * The document itself isn't kept. Only the selection sets of the root fields,
+ * and the named fragments spread within them, are kept to shape values to
+ * their selections. Plans only contain JSON values, so they can be stored in
+ * external caches.
+ *
+ * @param {DocumentNode} document - The parsed query document
+ * @returns {FroidOperationPlan} The compiled plan
+ * @throws {GraphQLError} When the document spreads a fragment it doesn't define
+ */
+export function compileOperationPlan(
+  document: DocumentNode
+): FroidOperationPlan {
+  const definitions = getFragments(document);
+  assertKnownFragments(document, definitions);
+
+  const operations: FroidPlanOperation[] = [];
+  const fragments: Record<string, FroidPlanSelection[]> = {};
+
+  document.definitions.forEach((definition) => {
+    if (definition.kind === Kind.OPERATION_DEFINITION) {
+      operations.push(compileOperation(definition));
+    }
+    if (
+      definition.kind === Kind.FRAGMENT_DEFINITION &&
+      doesFragmentConditionMatch(definition.typeCondition.name.value, QUERY)
+    ) {
+      fragments[definition.name.value] = compileSelections(
+        definition.selectionSet
+      );
+    }
+  });
+
+  const selectionSets = [
+    ...operations.map(({selections}) => selections),
+    ...Object.values(fragments),
+  ].flatMap(getFieldSelectionSets);
+
+  return {
+    version: OPERATION_PLAN_VERSION,
+    operations,
+    fragments,
+    fragmentDefinitions: pickSpreadFragments(definitions, selectionSets),
+  };
+}
+
+/**
+ * Determines whether a value is a plan compiled by this version, rather than
+ * a parsed query document or a plan cached by another version
+ *
+ * @param {unknown} value - The cached value
+ * @returns {boolean} Whether or not the value is a compiled plan
+ */
+export function isOperationPlan(value: unknown): value is FroidOperationPlan {
+  const plan = value as FroidOperationPlan | null | undefined;
+
+  return (
+    typeof plan === 'object' &&
+    plan !== null &&
+    plan.version === OPERATION_PLAN_VERSION &&
+    Array.isArray(plan.operations) &&
+    typeof plan.fragments === 'object' &&
+    plan.fragments !== null &&
+    typeof plan.fragmentDefinitions === 'object' &&
+    plan.fragmentDefinitions !== null
+  );
+}
+
+/**
+ * Selects the operation to execute from a plan, following the GraphQL spec's
+ * GetOperation() algorithm.
+ *
+ * @param {FroidOperationPlan} plan - The compiled plan
+ * @param {string} operationName - The name of the operation to execute
+ * @returns {FroidPlanOperation} The operation to execute
+ * @throws {GraphQLError} When the operation can't be determined
+ */
+export function getOperation(
+  {operations}: FroidOperationPlan,
+  operationName?: string | null
+): FroidPlanOperation {
+  if (operationName) {
+    const operation = operations.find(({name}) => name === operationName);
+    if (!operation) {
+      throw new GraphQLError(`Unknown operation named "${operationName}".`);
+    }
+    return operation;
+  }
+
+  if (operations.length > 1) {
+    throw new GraphQLError(
+      'Must provide operation name if query contains multiple operations.'
+    );
+  }
+
+  if (!operations.length) {
+    throw new GraphQLError('Must provide an operation.');
+  }
+
+  return operations[0];
+}
+
+/**
+ * Applies the default values of an operation's variable definitions to the
+ * variables provided with the request, the same way graphql-js does when
+ * coercing variable values.
+ *
+ * @param {FroidPlanOperation} operation - The operation being executed
+ * @param {object} variables - Variables used to execute the request
+ * @returns {object} The variable values with defaults applied
+ */
+export function getVariableValues(
+  operation: FroidPlanOperation,
+  variables?: Record<string, any>
+): Record<string, any> {
+  const variableValues = {...variables};
+
+  Object.entries(operation.variableDefaults).forEach(([name, defaultValue]) => {
+    if (!Object.prototype.hasOwnProperty.call(variables || {}, name)) {
+      variableValues[name] = defaultValue;
+    }
+  });
+
+  return variableValues;
+}
+
+/**
+ * Reads a compiled value, applying the variables of a request
+ *
+ * @param {FroidPlanValue|undefined} value - The compiled value
+ * @param {object} variableValues - The variable values, with defaults applied, used to execute the request
+ * @returns {any} The value
+ */
+export function resolvePlanValue(
+  value: FroidPlanValue | undefined,
+  variableValues: Record<string, any>
+): any {
+  if (!value) {
+    return undefined;
+  }
+  if ('variable' in value) {
+    // reach into the variables object and pull out the correct argument value
+    return variableValues?.[value.variable];
+  }
+  if ('list' in value) {
+    return value.list.map((item) => resolvePlanValue(item, variableValues));
+  }
+  if ('error' in value) {
+    throw createFroidError(value.error, value.code || QUERY_VALIDATION_ERROR);
+  }
+  return value.literal;
+}
+
+/**
+ * Evaluates the `if` argument of a compiled `@skip` or `@include` directive,
+ * failing the same way graphql-js does for missing or null variables
+ *
+ * @param {FroidPlanValue} condition - The compiled condition
+ * @param {object} variableValues - The variable values used to execute the request
+ * @param {string} query - The query document being executed, used to locate errors
+ * @returns {unknown} The value of the condition
+ */
+function evaluateCondition(
+  condition: FroidPlanValue,
+  variableValues: Record<string, any>,
+  query: string
+): unknown {
+  const createError = (message: string, position?: number) =>
+    new GraphQLError(
+      message,
+      position !== undefined
+        ? {source: new Source(query), positions: [position]}
+        : {}
+    );
+
+  if ('error' in condition) {
+    throw createError(condition.error, condition.position);
+  }
+
+  if ('variable' in condition) {
+    const {variable, position} = condition;
+
+    if (!Object.prototype.hasOwnProperty.call(variableValues, variable)) {
+      throw createError(
+        `Argument "if" of required type "Boolean!" was provided the variable "$${variable}" which was not provided a runtime value.`,
+        position
+      );
+    }
+    if (variableValues[variable] == null) {
+      throw createError(
+        'Argument "if" of non-null type "Boolean!" must not be null.',
+        position
+      );
+    }
+  }
+
+  return resolvePlanValue(condition, variableValues);
+}
+
+/**
+ * Determines whether a compiled selection should be included based on its
+ * `@skip` and `@include` directives
+ *
+ * @param {FroidPlanConditions} conditions - The compiled conditions of the selection
+ * @param {object} variableValues - The variable values used to execute the request
+ * @param {string} query - The query document being executed, used to locate errors
+ * @returns {boolean} Whether or not the selection should be included
+ */
+function shouldIncludeSelection(
+  {skip, include}: FroidPlanConditions,
+  variableValues: Record<string, any>,
+  query: string
+): boolean {
+  if (skip && evaluateCondition(skip, variableValues, query) === true) {
+    return false;
+  }
+
+  if (include && evaluateCondition(include, variableValues, query) === false) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Collects the root fields of a compiled operation, keyed by their response
+ * name, the same way collectFields does for the root selection set of a
+ * parsed operation.
+ *
+ * @param {FroidOperationPlan} plan - The compiled plan
+ * @param {FroidPlanSelection[]} selections - The compiled selections to collect fields from
+ * @param {object} variableValues - The variable values used to evaluate `@skip` and `@include` directives
+ * @param {string} query - The query document being executed, used to locate errors
+ * @param {Map<string, FroidPlanField[]>} fields - The fields collected so far
+ * @param {Set<string>} visitedFragmentNames - The named fragments that have already been followed
+ * @returns {Map<string, FroidPlanField[]>} The collected fields
+ */
+export function collectPlanFields(
+  plan: FroidOperationPlan,
+  selections: FroidPlanSelection[],
+  variableValues: Record<string, any>,
+  query: string,
+  fields: Map<string, FroidPlanField[]> = new Map(),
+  visitedFragmentNames: Set<string> = new Set()
+): Map<string, FroidPlanField[]> {
+  selections.forEach((selection) => {
+    if (!shouldIncludeSelection(selection.conditions, variableValues, query)) {
+      return;
+    }
+
+    switch (selection.kind) {
+      case Kind.FIELD:
+        fields.set(selection.responseName, [
+          ...(fields.get(selection.responseName) || []),
+          selection,
+        ]);
+        return;
+      case Kind.INLINE_FRAGMENT:
+        collectPlanFields(
+          plan,
+          selection.selections,
+          variableValues,
+          query,
+          fields,
+          visitedFragmentNames
+        );
+        return;
+      case Kind.FRAGMENT_SPREAD: {
+        const fragment = plan.fragments[selection.name];
+        if (visitedFragmentNames.has(selection.name) || !fragment) {
+          return;
+        }
+        visitedFragmentNames.add(selection.name);
+        collectPlanFields(
+          plan,
+          fragment,
+          variableValues,
+          query,
+          fields,
+          visitedFragmentNames
+        );
+        return;
+      }
+    }
+  });
+
+  return fields;
+}
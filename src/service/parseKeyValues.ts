@@ -0,0 +1,67 @@
+import {GraphQLError} from 'graphql';
+import {
+  createFroidError,
+  INVALID_ID_FORMAT,
+  withErrorCode,
+} from './froidErrors';
+import {ID_FIELD_NAME, TYPENAME_FIELD_NAME} from '../schema/constants';
+
+// Property names that could tamper with object prototypes, at any depth
+const UNSAFE_FIELD_NAMES = new Set(['__proto__', 'constructor', 'prototype']);
+
+// Field names of the entity object that are never taken from the key values
+const RESERVED_FIELD_NAMES = new Set([TYPENAME_FIELD_NAME, ID_FIELD_NAME]);
+
+/**
+ * Creates the error used to reject key values that can't be trusted
+ *
+ * @param {string} message - Describes what is wrong with the key values
+ * @returns {GraphQLError} The error
+ */
+function createInvalidKeyValuesError(message: string): GraphQLError {
+  return createFroidError(`Invalid id: ${message}`, INVALID_ID_FORMAT);
+}
+
+/**
+ * Parses the key values decoded from an id.
+ *
+ * The key values are spread into the entity object resolved for the id, so
+ * they must be an object, and may neither carry property names that could
+ * tamper with object prototypes (at any depth) nor override the `__typename`
+ * and `id` taken from the id itself.
+ *
+ * @param {string} json - The decoded key values
+ * @returns {Record<string, unknown>} The key values
+ */
+export function parseKeyValues(json: string): Record<string, unknown> {
+  let keys: unknown;
+
+  try {
+    keys = JSON.parse(json, (name, value) => {
+      if (UNSAFE_FIELD_NAMES.has(name)) {
+        throw createInvalidKeyValuesError(
+          `the key values contain the unsafe field "${name}"`
+        );
+      }
+      return value;
+    });
+  } catch (error) {
+    throw withErrorCode(error, INVALID_ID_FORMAT);
+  }
+
+  if (typeof keys !== 'object' || keys === null || Array.isArray(keys)) {
+    throw createInvalidKeyValuesError(
+      'expected the key values to be an object'
+    );
+  }
+
+  Object.keys(keys).forEach((name) => {
+    if (RESERVED_FIELD_NAMES.has(name)) {
+      throw createInvalidKeyValuesError(
+        `the key values contain the reserved field "${name}"`
+      );
+    }
+  });
+
+  return keys as Record<string, unknown>;
+}
@@ -0,0 +1,14 @@
+import {fromGlobalId, toGlobalId} from 'graphql-relay';
+import {IdCodec} from './types';
+
+/**
+ * The default id codec, which creates relay-spec compliant global identifiers
+ * using graphql-relay, i.e. `base64("Typename:keys")`
+ */
+export const relayIdCodec: IdCodec = {
+  serialize: (typename, keys) => toGlobalId(typename, keys),
+  parse: (id) => {
+    const {type: typename, id: keys} = fromGlobalId(id);
+    return {typename, keys};
+  },
+};
@@ -0,0 +1,125 @@
+import {GraphQLError} from 'graphql';
+import {createFroidError, LIMIT_EXCEEDED} from './froidErrors';
+import {FroidRequestLimits} from './types';
+
+/**
+ * Creates the error used to reject work that exceeds a request limit
+ *
+ * @param {string} message - Describes the limit that was exceeded
+ * @returns {GraphQLError} The error
+ */
+export function createLimitExceededError(message: string): GraphQLError {
+  return createFroidError(message, LIMIT_EXCEEDED);
+}
+
+/**
+ * Gets the nesting depth of a JSON document, where scalar values have a depth
+ * of `0` and each level of objects or arrays adds `1`. The document is scanned
+ * rather than parsed, so deeply nested documents can be measured without
+ * exhausting the call stack.
+ *
+ * @param {string} json - The JSON document
+ * @returns {number} The depth of the document
+ */
+function getJsonDepth(json: string): number {
+  let depth = 0;
+  let maxDepth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (const char of json) {
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      depth += 1;
+      maxDepth = Math.max(maxDepth, depth);
+    } else if (char === '}' || char === ']') {
+      depth -= 1;
+    }
+  }
+
+  return maxDepth;
+}
+
+/**
+ * Rejects operations that request more nodes than allowed, before any of
+ * their ids are decoded
+ *
+ * @param {number} nodeSelections - The number of nodes the operation requests
+ * @param {FroidRequestLimits} limits - The request limits
+ * @returns {void}
+ */
+export function assertNodeSelections(
+  nodeSelections: number,
+  {maxNodeSelections}: FroidRequestLimits
+): void {
+  if (maxNodeSelections !== undefined && nodeSelections > maxNodeSelections) {
+    throw createLimitExceededError(
+      `The operation requests ${nodeSelections} nodes, which exceeds the limit of ${maxNodeSelections}`
+    );
+  }
+}
+
+/**
+ * Rejects ids that are longer than allowed, before any work is done for them
+ *
+ * @param {string} id - The id
+ * @param {FroidRequestLimits} limits - The request limits
+ * @returns {void}
+ */
+export function assertIdLength(
+  id: string,
+  {maxIdLength}: FroidRequestLimits
+): void {
+  if (maxIdLength !== undefined && id.length > maxIdLength) {
+    throw createLimitExceededError(
+      `Id exceeds the maximum length of ${maxIdLength} characters`
+    );
+  }
+}
+
+/**
+ * Rejects decoded key values that are larger than allowed, before they are
+ * parsed
+ *
+ * @param {string} json - The decoded key values
+ * @param {FroidRequestLimits} limits - The request limits
+ * @returns {void}
+ */
+export function assertDecodedSize(
+  json: string,
+  {maxDecodedSize}: FroidRequestLimits
+): void {
+  if (maxDecodedSize !== undefined && json.length > maxDecodedSize) {
+    throw createLimitExceededError(
+      `Decoded id exceeds the maximum size of ${maxDecodedSize} characters`
+    );
+  }
+}
+
+/**
+ * Rejects decoded key values that are nested deeper than allowed, before they
+ * are parsed
+ *
+ * @param {string} json - The decoded key values
+ * @param {FroidRequestLimits} limits - The request limits
+ * @returns {void}
+ */
+export function assertDecodedDepth(
+  json: string,
+  {maxDecodedDepth}: FroidRequestLimits
+): void {
+  if (maxDecodedDepth !== undefined && getJsonDepth(json) > maxDecodedDepth) {
+    throw createLimitExceededError(
+      `Decoded id exceeds the maximum depth of ${maxDecodedDepth}`
+    );
+  }
+}
@@ -1,4 +1,10 @@
-import {DocumentNode} from 'graphql/language';
+import {
+  DocumentNode,
+  FragmentDefinitionNode,
+  Kind,
+  OperationTypeNode,
+  SelectionSetNode,
+} from 'graphql/language';
 
 export type RepresentationObject = {
   __typename: string;
@@ -20,13 +26,126 @@ export type GraphQLResponse = {
 
 export type GraphQLRequest = {
   query: string;
+  operationName?: string | null;
   variables?: Record<string, any>;
 };
 
+export type FroidPlanValue =
+  | {literal: unknown}
+  | {variable: string; position?: number}
+  | {list: FroidPlanValue[]}
+  | {error: string; code?: string; position?: number};
+
+export type FroidPlanConditions = {
+  skip?: FroidPlanValue;
+  include?: FroidPlanValue;
+};
+
+export type FroidPlanField = {
+  kind: Kind.FIELD;
+  responseName: string;
+  fieldName: string;
+  argument?: FroidPlanValue;
+  selectionSet?: SelectionSetNode;
+  conditions: FroidPlanConditions;
+};
+
+export type FroidPlanSelection =
+  | FroidPlanField
+  | {
+      kind: Kind.INLINE_FRAGMENT;
+      selections: FroidPlanSelection[];
+      conditions: FroidPlanConditions;
+    }
+  | {
+      kind: Kind.FRAGMENT_SPREAD;
+      name: string;
+      conditions: FroidPlanConditions;
+    };
+
+export type FroidPlanOperation = {
+  name?: string;
+  operation: OperationTypeNode;
+  variableDefaults: Record<string, unknown>;
+  selections: FroidPlanSelection[];
+};
+
+export type FroidOperationPlan = {
+  version: number;
+  operations: FroidPlanOperation[];
+  fragments: Record<string, FroidPlanSelection[]>;
+  fragmentDefinitions: Record<string, FragmentDefinitionNode>;
+};
+
 export type FroidCache = {
-  get: (string) => DocumentNode;
-  set: (string, DocumentNode) => void;
+  // Both methods may be synchronous or return promises, so synchronous caches
+  // (e.g. a Map) keep working alongside async ones.
+  //
+  // Caches written to by previous versions may still return parsed documents,
+  // which are compiled into a plan when they are read. Plans of another
+  // version are treated as misses.
+  get: (
+    query: string
+  ) =>
+    | FroidOperationPlan
+    | DocumentNode
+    | undefined
+    | Promise<FroidOperationPlan | DocumentNode | undefined>;
+  set: (query: string, plan: FroidOperationPlan) => void | Promise<void>;
+};
+
+export type FroidCacheStore = {
+  get: (key: string) => string | undefined | Promise<string | undefined>;
+  set: (key: string, value: string) => void | Promise<void>;
+};
+
+export type FroidCacheSerializer = {
+  serialize: (plan: FroidOperationPlan) => string;
+  deserialize: (value: string) => FroidOperationPlan | DocumentNode;
 };
 
-export type EncodeCallback = (string) => string;
-export type DecodeCallback = (string) => string;
+export type CallbackOptions = {
+  signal?: AbortSignal;
+};
+
+export type EncodeCallback = (
+  value: string,
+  options: CallbackOptions
+) => string | Promise<string>;
+export type DecodeCallback = (
+  value: string,
+  options: CallbackOptions
+) => string | Promise<string>;
+
+export type IdSigningOptions = {
+  secret: Buffer | string;
+  verificationSecrets?: Array<Buffer | string>;
+};
+
+export type IdVersioningOptions = {
+  currentVersion: number;
+  decoders?: Record<number, DecodeCallback>;
+};
+
+export type RedactionMode = 'keep' | 'omit' | 'truncate' | 'hash';
+
+export type ErrorRedactionOptions = {
+  query?: RedactionMode;
+  id?: RedactionMode;
+  truncateLength?: number;
+  hashSecret?: string;
+};
+
+export type FroidRequestLimits = {
+  maxTokens?: number;
+  maxNodeSelections?: number;
+  maxIdLength?: number;
+  maxDecodedSize?: number;
+  maxDecodedDepth?: number;
+  maxRepresentations?: number;
+};
+
+export type IdCodec = {
+  serialize: (typename: string, keys: string) => string;
+  parse: (id: string) => {typename: string; keys: string};
+};